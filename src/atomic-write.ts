@@ -0,0 +1,67 @@
+// Atomic file replacement. The new content is written to a temporary file next
+// to the target, flushed to disk, and renamed over the target, so readers see
+// either the old file or the new one, never a partly written one.
+
+import { Stats, promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { errorCode } from './errors.js';
+
+async function statIfExists(filePath: string): Promise<Stats | undefined> {
+  try {
+    return await fs.stat(filePath);
+  } catch (error) {
+    if (errorCode(error) === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function syncDirectory(directory: string): Promise<void> {
+  try {
+    const handle = await fs.open(directory, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Not every platform can open or sync a directory
+  }
+}
+
+/**
+ * Replace the file's content atomically, keeping its mode and, where
+ * permitted, its owner. Symbolic links are followed, so the file they point
+ * to is replaced rather than the link.
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const target = await fs.realpath(filePath).catch(() => filePath);
+  const stats = await statIfExists(target);
+  const directory = path.dirname(target);
+  const tempPath = path.join(directory, `.${path.basename(target)}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`);
+
+  const handle = await fs.open(tempPath, 'wx', stats ? stats.mode & 0o7777 : 0o666);
+  try {
+    await handle.writeFile(content, 'utf-8');
+    if (stats) {
+      // The mode passed to open is reduced by the umask
+      await handle.chmod(stats.mode & 0o7777);
+      try {
+        await handle.chown(stats.uid, stats.gid);
+      } catch {
+        // Only privileged processes can hand a file to another owner
+      }
+    }
+    await handle.sync();
+    await handle.close();
+    await fs.rename(tempPath, target);
+  } catch (error) {
+    await handle.close().catch(() => undefined);
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  await syncDirectory(directory);
+}
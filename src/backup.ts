@@ -0,0 +1,116 @@
+// Backups taken before destructive edits. The file's content is copied to a
+// timestamped file, and only the most recent backups of each file are kept.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { errorCode } from './errors.js';
+
+export interface BackupOptions {
+  /**
+   * Where backups are kept. A relative directory is resolved against the
+   * directory of each backed up file; an absolute one is shared, with the
+   * backed up file's own path recreated inside it.
+   */
+  directory?: string;
+  /** How many backups of each file to keep, 0 turns backups off */
+  count?: number;
+}
+
+export const DEFAULT_BACKUP_DIRECTORY = path.join('.json-editor-mcp', 'backups');
+
+/**
+ * Backup options from the JSON_EDITOR_MCP_BACKUP_DIR and
+ * JSON_EDITOR_MCP_BACKUP_COUNT environment variables. Unset or invalid
+ * variables leave the defaults.
+ */
+export function backupOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): BackupOptions {
+  const count = Number.parseInt(env.JSON_EDITOR_MCP_BACKUP_COUNT ?? '', 10);
+  return {
+    directory: env.JSON_EDITOR_MCP_BACKUP_DIR || undefined,
+    count: Number.isNaN(count) ? undefined : count,
+  };
+}
+
+export class Backups {
+  private readonly options: Required<BackupOptions>;
+
+  constructor(options: BackupOptions = {}) {
+    // Per field, so options that are explicitly undefined fall back too
+    this.options = { directory: options.directory ?? DEFAULT_BACKUP_DIRECTORY, count: options.count ?? 5 };
+  }
+
+  /**
+   * Where the backups of a file are kept.
+   */
+  backupDirectory(filePath: string): string {
+    const resolved = path.dirname(path.resolve(filePath));
+    if (!path.isAbsolute(this.options.directory)) {
+      return path.resolve(resolved, this.options.directory);
+    }
+    return path.join(this.options.directory, resolved.slice(path.parse(resolved).root.length));
+  }
+
+  /**
+   * Save the content as the newest backup of the file and remove backups
+   * beyond the configured count. Returns the backup's path, or undefined if
+   * backups are turned off.
+   */
+  async create(filePath: string, content: string): Promise<string | undefined> {
+    if (this.options.count <= 0) {
+      return undefined;
+    }
+    const directory = this.backupDirectory(filePath);
+    const name = path.basename(filePath);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    await fs.mkdir(directory, { recursive: true });
+
+    let backupPath = '';
+    for (let attempt = 0; ; attempt++) {
+      // "~" sorts after ".", so backups taken within the same millisecond stay in order
+      backupPath = path.join(directory, `${name}.${timestamp}${attempt === 0 ? '' : `~${attempt}`}.bak`);
+      try {
+        await fs.writeFile(backupPath, content, { flag: 'wx' });
+        break;
+      } catch (error) {
+        if (errorCode(error) !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+
+    await this.prune(directory, name);
+    return backupPath;
+  }
+
+  /**
+   * The backups of a file, oldest first.
+   */
+  async list(filePath: string): Promise<string[]> {
+    const directory = this.backupDirectory(filePath);
+    return (await this.backupNames(directory, path.basename(filePath))).map((name) => path.join(directory, name));
+  }
+
+  private async prune(directory: string, name: string): Promise<void> {
+    const names = await this.backupNames(directory, name);
+    for (const old of names.slice(0, Math.max(0, names.length - this.options.count))) {
+      await fs.rm(path.join(directory, old), { force: true });
+    }
+  }
+
+  private async backupNames(directory: string, name: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    // The timestamp must follow the name directly, so "en.json" does not pick up "en.json.old" backups
+    const pattern = /^\d{4}-\d{2}-\d{2}T[\d-]+Z(~\d+)?\.bak$/;
+    return entries
+      .filter((entry) => entry.startsWith(`${name}.`) && pattern.test(entry.slice(name.length + 1)))
+      .sort();
+  }
+}
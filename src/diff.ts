@@ -0,0 +1,226 @@
+// Diffs of JSON files, for previewing edits: a unified diff of the text, as
+// `diff -u` prints it, and a structural diff of the values, listing every
+// added, removed or changed path.
+
+import { deepEqual } from './equal.js';
+import { formatPath } from './path.js';
+
+export interface JsonChange {
+  type: 'added' | 'removed' | 'changed';
+  /** Path of the value in dot notation, empty for the whole document */
+  path: string;
+  oldValue?: any;
+  newValue?: any;
+}
+
+export interface EditPreview {
+  /** Unified diff of the file's text, empty if the text is unchanged */
+  diff: string;
+  changes: JsonChange[];
+}
+
+export type DiffBase = 'backup' | 'head';
+
+export const DIFF_BASES: DiffBase[] = ['backup', 'head'];
+
+interface LineOp {
+  type: ' ' | '-' | '+';
+  /** The line, including its line break unless it is the last line without one */
+  line: string;
+}
+
+const NO_NEWLINE = '\\ No newline at end of file';
+// Beyond this many inserted and deleted lines, the search for the shortest
+// edit script would take too long and too much memory
+const MAX_EDIT_DISTANCE = 2000;
+
+function splitLines(text: string): string[] {
+  const lines = text.split(/(?<=\n)/);
+  return lines.length === 1 && lines[0] === '' ? [] : lines;
+}
+
+/**
+ * Shortest edit script between two lists of lines (Myers' algorithm).
+ */
+function diffLines(a: string[], b: string[]): LineOp[] {
+  // Lines shared at the start and the end are kept out of the search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+
+  const n = oldLines.length;
+  const m = newLines.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // Step d only reads diagonals -d..d of the previous step, so only that
+  // window is kept for backtracking
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  search: for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break search;
+      }
+    }
+  }
+
+  const middle: LineOp[] = [];
+  if (!found) {
+    // Too many changes to search for the shortest script: the changed region
+    // is replaced as a whole
+    middle.push(...newLines.map((line) => ({ type: '+' as const, line })).reverse());
+    middle.push(...oldLines.map((line) => ({ type: '-' as const, line })).reverse());
+  }
+  let x = n;
+  let y = m;
+  for (let d = found ? trace.length - 1 : -1; d >= 0; d--) {
+    const window = trace[d];
+    const previous = (k: number) => window[k + d] ?? 0;
+    const k = x - y;
+    const previousK = k === -d || (k !== d && previous(k - 1) < previous(k + 1)) ? k + 1 : k - 1;
+    const previousX = previous(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      middle.push({ type: ' ', line: oldLines[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        middle.push({ type: '+', line: newLines[--y] });
+      } else {
+        middle.push({ type: '-', line: oldLines[--x] });
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, prefix).map((line) => ({ type: ' ' as const, line })),
+    ...middle.reverse(),
+    ...a.slice(a.length - suffix).map((line) => ({ type: ' ' as const, line })),
+  ];
+}
+
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start},0`;
+  }
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+}
+
+/**
+ * Unified diff of two texts with the given lines of context around each
+ * change. Returns an empty string if the texts are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, fileName: string, context = 3): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Each change pulls in its context; overlapping or touching ranges form one hunk
+  const hunks: [number, number][] = [];
+  ops.forEach((op, index) => {
+    if (op.type === ' ') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const oldStart: number[] = [];
+  const newStart: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldStart.push(oldLine);
+    newStart.push(newLine);
+    oldLine += op.type === '+' ? 0 : 1;
+    newLine += op.type === '-' ? 0 : 1;
+  }
+
+  const output = [`--- ${fileName}`, `+++ ${fileName}`];
+  for (const [start, end] of hunks) {
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    output.push(`@@ -${formatRange(oldStart[start], oldCount)} +${formatRange(newStart[start], newCount)} @@`);
+    for (const op of hunk) {
+      const hasNewline = op.line.endsWith('\n');
+      output.push(op.type + op.line.replace(/\r?\n$/, ''));
+      if (!hasNewline) {
+        output.push(NO_NEWLINE);
+      }
+    }
+  }
+  return output.join('\n') + '\n';
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * List the values that differ between two JSON values. Objects are compared
+ * key by key and arrays index by index; anything else that differs is
+ * reported as changed as a whole.
+ */
+export function structuralDiff(oldValue: any, newValue: any, keys: string[] = []): JsonChange[] {
+  if (deepEqual(oldValue, newValue)) {
+    return [];
+  }
+
+  const has = (value: any, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+  let childKeys: string[] | undefined;
+  if (isObject(oldValue) && isObject(newValue)) {
+    childKeys = [...Object.keys(oldValue), ...Object.keys(newValue).filter((key) => !has(oldValue, key))];
+  } else if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    childKeys = Array.from({ length: Math.max(oldValue.length, newValue.length) }, (_, index) => String(index));
+  }
+  if (!childKeys) {
+    return [{ type: 'changed', path: formatPath(keys), oldValue, newValue }];
+  }
+
+  return childKeys.flatMap((key): JsonChange[] => {
+    const path = [...keys, key];
+    if (!has(newValue, key)) {
+      return [{ type: 'removed', path: formatPath(path), oldValue: oldValue[key] }];
+    }
+    if (!has(oldValue, key)) {
+      return [{ type: 'added', path: formatPath(path), newValue: newValue[key] }];
+    }
+    return structuralDiff(oldValue[key], newValue[key], path);
+  });
+}
+
+/**
+ * Preview of an edit that would change a file's text and value.
+ */
+export function previewEdit(fileName: string, oldText: string, newText: string, oldValue: any, newValue: any): EditPreview {
+  return {
+    diff: unifiedDiff(oldText, newText, fileName),
+    changes: structuralDiff(oldValue, newValue),
+  };
+}
@@ -0,0 +1,611 @@
+// Concrete syntax tree editing of JSON text.
+//
+// Instead of parsing, mutating and re-serializing the whole file, every edit
+// is turned into a splice of the smallest span of text that changes. Anything
+// outside that span stays byte-identical: spacing, key order, comments.
+
+import { ArrayNode, JsonNode, JsonNodeBase, ObjectNode, ParseOptions, nodeToValue, parseTree } from './parser.js';
+import { JsonFormat, detectFormat, formatValue } from './format.js';
+import { formatPath } from './path.js';
+
+type ContainerNode = ObjectNode | ArrayNode;
+
+interface TextEdit {
+  offset: number;
+  length: number;
+  content: string;
+}
+
+const ARRAY_INDEX = /^(?:0|[1-9]\d*)$/;
+
+function end(node: JsonNodeBase): number {
+  return node.offset + node.length;
+}
+
+function isContainer(node: JsonNode): node is ContainerNode {
+  return node.type === 'object' || node.type === 'array';
+}
+
+function members(container: ContainerNode): JsonNodeBase[] {
+  return container.type === 'object' ? container.properties : container.items;
+}
+
+function nestValue(keys: string[], value: any): any {
+  return keys.reduceRight((nested, key) => {
+    const wrapper: Record<string, any> = {};
+    Object.defineProperty(wrapper, key, { value: nested, writable: true, enumerable: true, configurable: true });
+    return wrapper;
+  }, value);
+}
+
+export class JsonDocument {
+  readonly format: JsonFormat;
+  private source: string;
+  private root: JsonNode;
+
+  constructor(text: string, private readonly options: ParseOptions = {}) {
+    this.source = text;
+    this.root = parseTree(text, options);
+    this.format = detectFormat(text);
+  }
+
+  get text(): string {
+    return this.source;
+  }
+
+  get value(): any {
+    return nodeToValue(this.root);
+  }
+
+  getValueAtPath(keys: string[]): any {
+    return nodeToValue(this.findNode(keys));
+  }
+
+  hasValueAtPath(keys: string[]): boolean {
+    try {
+      this.findNode(keys);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Set the value at the given keys, creating missing objects along the way
+   * and replacing primitives that are in the way.
+   */
+  setValueAtPath(keys: string[], value: any): void {
+    const path = formatPath(keys);
+    let node = this.root;
+
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      if (!isContainer(node)) {
+        throw new Error(`Path ${path} not found: ${key} is not an object`);
+      }
+
+      const child = this.findChild(node, key);
+      if (!child) {
+        if (node.type === 'array' && !(ARRAY_INDEX.test(key) && Number(key) === node.items.length)) {
+          throw new Error(`Path ${path} not found: ${key} is not a valid index for an array of length ${node.items.length}`);
+        }
+        this.insertMember(node, node.type === 'object' ? key : null, nestValue(keys.slice(i + 1), value));
+        return;
+      }
+
+      if (i === keys.length - 1 || !isContainer(child)) {
+        this.replaceNode(child, nestValue(keys.slice(i + 1), value));
+        return;
+      }
+
+      node = child;
+    }
+
+    this.replaceNode(this.root, value);
+  }
+
+  /**
+   * Insert a value into an array before the item at the given index, shifting
+   * the later items along. An index equal to the array's length appends.
+   */
+  insertValueAtPath(keys: string[], value: any): void {
+    const path = formatPath(keys);
+    const lastKey = keys[keys.length - 1];
+    const parent = this.findNode(keys.slice(0, -1), path);
+
+    if (parent.type !== 'array') {
+      throw new Error(`Path ${path} not found: cannot insert into non-array`);
+    }
+    if (!ARRAY_INDEX.test(lastKey) || Number(lastKey) > parent.items.length) {
+      throw new Error(`Path ${path} not found: ${lastKey} is not a valid index for an array of length ${parent.items.length}`);
+    }
+
+    const index = Number(lastKey);
+    if (index === parent.items.length) {
+      this.insertMember(parent, null, value);
+      return;
+    }
+
+    const item = parent.items[index];
+    if (this.startsLine(item.offset)) {
+      const indent = this.lineIndent(item.offset);
+      const content = this.formatMember(parent, null, value, this.format, indent);
+      this.applyEdits([{ offset: item.offset, length: 0, content: `${content},${this.format.eol}${indent}` }]);
+      return;
+    }
+
+    // Reuse the separator between the item and its neighbour
+    const [before, after] = index + 1 < parent.items.length
+      ? [item, parent.items[index + 1]]
+      : [parent.items[index - 1], item];
+    const between = before ? this.source.slice(end(before), after.offset) : '';
+    const separator = this.commaSeparator(parent, between);
+    const content = this.formatMember(parent, null, value, { ...this.format, indent: '' }, '');
+    this.applyEdits([{ offset: item.offset, length: 0, content: `${content}${separator}` }]);
+  }
+
+  deleteValueAtPath(keys: string[]): void {
+    if (keys.length === 0) {
+      throw new Error('Cannot delete the root value');
+    }
+
+    const path = formatPath(keys);
+    const lastKey = keys[keys.length - 1];
+    const parent = this.findNode(keys.slice(0, -1), path);
+
+    if (!isContainer(parent)) {
+      throw new Error(`Path ${path} not found: cannot delete from non-object`);
+    }
+    if (!this.findChild(parent, lastKey)) {
+      throw new Error(`Path ${path} not found: ${lastKey} does not exist`);
+    }
+
+    if (parent.type === 'array') {
+      this.removeMember(parent, Number(lastKey));
+      return;
+    }
+
+    // Remove every occurrence of a duplicated key, otherwise an earlier one
+    // would become visible again
+    let container: ContainerNode = parent;
+    let index: number;
+    while ((index = container.properties.findIndex((property) => property.key === lastKey)) !== -1) {
+      const offset = container.offset;
+      this.removeMember(container, index);
+      container = this.containerAt(offset) as ObjectNode;
+    }
+  }
+
+  /**
+   * Append properties to existing objects, each object named by its keys, in
+   * a single edit of the text. Each object may only be named once.
+   */
+  addProperties(additions: { keys: string[]; entries: [string, any][] }[]): void {
+    const edits = additions.flatMap(({ keys, entries }) => {
+      const node = this.findNode(keys);
+      if (node.type !== 'object') {
+        throw new Error(`Path ${formatPath(keys)} is not an object`);
+      }
+      return entries.length > 0 ? this.memberEdits(node, entries) : [];
+    });
+    if (edits.length > 0) {
+      this.applyEdits(edits);
+    }
+  }
+
+  /**
+   * Give the first occurrence of each duplicated key the merged value and
+   * remove the later occurrences, in a single edit of the text. Each object
+   * is named by its keys.
+   */
+  mergeDuplicateProperties(merges: { keys: string[]; key: string; value: any }[]): void {
+    const edits: TextEdit[] = [];
+    const removals = new Map<ObjectNode, number[]>();
+    const occurrences = new Map<ObjectNode, Map<string, number[]>>();
+
+    for (const { keys, key, value } of merges) {
+      const node = this.findNode(keys);
+      if (node.type !== 'object') {
+        throw new Error(`Path ${formatPath(keys)} is not an object`);
+      }
+      if (!occurrences.has(node)) {
+        const indices = new Map<string, number[]>();
+        node.properties.forEach((property, index) => indices.set(property.key, [...(indices.get(property.key) ?? []), index]));
+        occurrences.set(node, indices);
+        removals.set(node, []);
+      }
+      const indices = occurrences.get(node)!.get(key);
+      if (!indices) {
+        throw new Error(`Path ${formatPath([...keys, key])} not found: ${key} does not exist`);
+      }
+
+      const first = node.properties[indices[0]].value;
+      const content = formatValue(value, this.format, this.lineIndent(first.offset));
+      edits.push({ offset: first.offset, length: first.length, content });
+      removals.get(node)!.push(...indices.slice(1));
+    }
+
+    for (const [node, indices] of removals) {
+      edits.push(...this.removalEdits(node, indices));
+    }
+    if (edits.length > 0) {
+      this.applyEdits(edits);
+    }
+  }
+
+  /**
+   * Keys of the object at the given keys in source order, each key once.
+   * Undefined when there is no object there.
+   */
+  getKeysAtPath(keys: string[]): string[] | undefined {
+    if (!this.hasValueAtPath(keys)) {
+      return undefined;
+    }
+    const node = this.findNode(keys);
+    return node.type === 'object' ? [...new Set(node.properties.map((property) => property.key))] : undefined;
+  }
+
+  /**
+   * Reorder the properties of objects by moving their text, so comments,
+   * formatting and duplicate keys come along. The order function gets the
+   * keys of each object, duplicates included, and its path, and returns the
+   * new order as indices into the keys, or undefined to leave the object as
+   * it is. Returns whether the text changed.
+   */
+  reorderProperties(order: (keys: string[], path: string[]) => number[] | undefined, descendIntoArrays = true): boolean {
+    const content = this.reorderedText(this.root, [], order, descendIntoArrays);
+    if (content === this.source.slice(this.root.offset, end(this.root))) {
+      return false;
+    }
+    this.applyEdits([{ offset: this.root.offset, length: this.root.length, content }]);
+    return true;
+  }
+
+  private findNode(keys: string[], path = formatPath(keys)): JsonNode {
+    let node = this.root;
+
+    for (const key of keys) {
+      if (!isContainer(node)) {
+        throw new Error(`Path ${path} not found: ${key} is not an object`);
+      }
+      const child = this.findChild(node, key);
+      if (!child) {
+        throw new Error(`Path ${path} not found: ${key} does not exist`);
+      }
+      node = child;
+    }
+
+    return node;
+  }
+
+  private findChild(container: ContainerNode, key: string): JsonNode | undefined {
+    if (container.type === 'array') {
+      return ARRAY_INDEX.test(key) ? container.items[Number(key)] : undefined;
+    }
+
+    // The last occurrence of a duplicated key wins, as with JSON.parse
+    for (let i = container.properties.length - 1; i >= 0; i--) {
+      if (container.properties[i].key === key) {
+        return container.properties[i].value;
+      }
+    }
+    return undefined;
+  }
+
+  private containerAt(offset: number, node: JsonNode = this.root): ContainerNode | undefined {
+    if (!isContainer(node) || offset < node.offset || offset >= end(node)) {
+      return undefined;
+    }
+    if (node.offset === offset) {
+      return node;
+    }
+    for (const member of node.type === 'object' ? node.properties.map((p) => p.value) : node.items) {
+      const found = this.containerAt(offset, member);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  private replaceNode(node: JsonNode, value: any): void {
+    const content = formatValue(value, this.format, this.lineIndent(node.offset));
+    this.applyEdits([{ offset: node.offset, length: node.length, content }]);
+  }
+
+  private insertMember(container: ContainerNode, key: string | null, value: any): void {
+    this.applyEdits(this.memberEdits(container, [[key, value]]));
+  }
+
+  /**
+   * Edits that append the entries to the end of a container.
+   */
+  private memberEdits(container: ContainerNode, entries: [string | null, any][]): TextEdit[] {
+    const existing = members(container);
+    const closeOffset = end(container) - 1;
+
+    if (existing.length === 0) {
+      const inner = this.source.slice(container.offset + 1, closeOffset);
+      const keepInner = inner.trim() !== '';
+
+      if (this.format.indent === '') {
+        const content = entries.map(([key, value]) => this.formatMember(container, key, value, this.format, ''));
+        return [{ offset: closeOffset, length: 0, content: content.join(this.commaSeparator(container, '')) }];
+      }
+
+      const containerIndent = this.lineIndent(container.offset);
+      const memberIndent = containerIndent + this.format.indent;
+      const eol = this.format.eol;
+      const content = entries.map(([key, value]) => this.formatMember(container, key, value, this.format, memberIndent));
+      return [{
+        offset: container.offset + 1,
+        // Comments inside an otherwise empty container are kept after the new members
+        length: keepInner ? 0 : inner.length,
+        content: `${eol}${memberIndent}${content.join(`,${eol}${memberIndent}`)}${keepInner ? '' : eol + containerIndent}`,
+      }];
+    }
+
+    const last = existing[existing.length - 1];
+    const lastEnd = end(last);
+
+    if (this.isMultiline(container)) {
+      const indent = this.lineIndent(last.offset);
+      const content = entries.map(([key, value]) => `${this.format.eol}${indent}${this.formatMember(container, key, value, this.format, indent)}`);
+      // A trailing line comment stays with the member it annotates
+      const insertAt = this.skipLineComment(lastEnd);
+      return [
+        { offset: lastEnd, length: 0, content: ',' },
+        { offset: insertAt, length: 0, content: content.join(',') },
+      ];
+    }
+
+    // Single-line containers stay on one line, separated the way they already are
+    const compact = { ...this.format, indent: '' };
+    const between = existing.length > 1 ? this.source.slice(end(existing[existing.length - 2]), last.offset) : '';
+    const separator = this.commaSeparator(container, between);
+    const content = entries.map(([key, value]) => `${separator}${this.formatMember(container, key, value, compact, '')}`);
+    return [{ offset: lastEnd, length: 0, content: content.join('') }];
+  }
+
+  private removeMember(container: ContainerNode, index: number): void {
+    if (members(container).length === 1) {
+      this.applyEdits([{ offset: container.offset + 1, length: container.length - 2, content: '' }]);
+      return;
+    }
+    this.applyEdits(this.removalEdits(container, [index]));
+  }
+
+  /**
+   * Edits that remove the members at the indices, keeping at least one.
+   */
+  private removalEdits(container: ContainerNode, indices: number[]): TextEdit[] {
+    const existing = members(container);
+    const removed = new Set(indices);
+    let lastKept = existing.length - 1;
+    while (removed.has(lastKept)) {
+      lastKept--;
+    }
+
+    const edits: TextEdit[] = [];
+    for (const index of removed) {
+      if (index > lastKept) {
+        continue;
+      }
+      const member = existing[index];
+      const next = existing[index + 1];
+      const commaEnd = this.findComma(end(member)) + 1;
+      const lineEnd = this.skipLineComment(commaEnd);
+
+      if (this.startsLine(member.offset) && this.startsLine(next.offset) && /^\r?\n/.test(this.source.slice(lineEnd))) {
+        const start = this.lineStart(member.offset);
+        const stop = lineEnd + (this.source[lineEnd] === '\r' ? 2 : 1);
+        edits.push({ offset: start, length: stop - start, content: '' });
+      } else {
+        edits.push({ offset: member.offset, length: next.offset - member.offset, content: '' });
+      }
+    }
+
+    if (lastKept === existing.length - 1) {
+      return edits;
+    }
+
+    // Members removed from the end take the comma after the last kept one
+    const first = existing[lastKept + 1];
+    const lastEnd = end(existing[existing.length - 1]);
+    const keptEnd = end(existing[lastKept]);
+    const comma = this.findComma(keptEnd);
+
+    if (this.startsLine(first.offset)) {
+      // Drop the members' whole lines, along with the line break before them
+      let start = this.lineStart(first.offset) - 1;
+      if (this.source[start - 1] === '\r') {
+        start--;
+      }
+      const stop = this.skipLineComment(lastEnd);
+      edits.push({ offset: comma, length: 1, content: '' }, { offset: start, length: stop - start, content: '' });
+    } else {
+      edits.push({ offset: keptEnd, length: lastEnd - keptEnd, content: '' });
+    }
+    return edits;
+  }
+
+  private reorderedText(node: JsonNode, keys: string[], order: (keys: string[], path: string[]) => number[] | undefined, descendIntoArrays: boolean): string {
+    if (node.type === 'array' && descendIntoArrays) {
+      const texts = node.items.map((item, index) => this.reorderedText(item, [...keys, String(index)], order, descendIntoArrays));
+      return this.joinMembers(node, texts);
+    }
+    if (node.type !== 'object') {
+      return this.source.slice(node.offset, end(node));
+    }
+
+    const { properties } = node;
+    const texts = properties.map((property) =>
+      this.source.slice(property.offset, property.value.offset) +
+      this.reorderedText(property.value, [...keys, property.key], order, descendIntoArrays)
+    );
+    const indices = order(properties.map((property) => property.key), keys);
+    if (!indices || indices.every((index, position) => index === position)) {
+      return this.joinMembers(node, texts);
+    }
+
+    // When every property has lines of its own, a property moves together
+    // with the comment lines above it and the line comment after it. Blank
+    // lines above it stay where they are, as they separate positions.
+    const units: { blank: string; lead: string; gap: string; trailing: string; eol: string }[] = [];
+    let unitStart = this.skipLineComment(node.offset + 1);
+    let lineBreak = /^\r?\n/.exec(this.source.slice(unitStart));
+    const firstStart = unitStart + (lineBreak?.[0].length ?? 0);
+    unitStart = firstStart;
+
+    for (let i = 0; lineBreak && i < properties.length; i++) {
+      const property = properties[i];
+      const valueEnd = end(property);
+      const comma = i < properties.length - 1 ? this.findComma(valueEnd) : valueEnd;
+      const tailStart = i < properties.length - 1 ? comma + 1 : valueEnd;
+      const tailEnd = this.skipLineComment(tailStart);
+      lineBreak = /^\r?\n/.exec(this.source.slice(tailEnd));
+      if (!this.startsLine(property.offset) || /\n/.test(this.source.slice(valueEnd, comma))) {
+        lineBreak = null;
+      }
+      if (lineBreak) {
+        const lead = this.source.slice(unitStart, property.offset);
+        const blank = /^(?:[ \t]*\r?\n)*/.exec(lead)![0];
+        units.push({
+          blank,
+          lead: lead.slice(blank.length),
+          gap: this.source.slice(valueEnd, comma),
+          trailing: this.source.slice(tailStart, tailEnd),
+          eol: lineBreak[0],
+        });
+        unitStart = tailEnd + lineBreak[0].length;
+      }
+    }
+
+    if (units.length < properties.length) {
+      return this.joinMembers(node, indices.map((index) => texts[index]));
+    }
+
+    const lastEnd = unitStart - units[units.length - 1].eol.length;
+    const lines = indices.map((index, position) => {
+      const unit = units[index];
+      const comma = position < indices.length - 1 ? ',' : '';
+      const eol = position < indices.length - 1 ? units[position].eol : '';
+      return `${units[position].blank}${unit.lead}${texts[index]}${unit.gap}${comma}${unit.trailing}${eol}`;
+    });
+    return this.source.slice(node.offset, firstStart) + lines.join('') + this.source.slice(lastEnd, end(node));
+  }
+
+  /**
+   * Text of a container with the given texts in place of its members, keeping
+   * everything between them.
+   */
+  private joinMembers(container: ContainerNode, texts: string[]): string {
+    const existing = members(container);
+    if (existing.length === 0) {
+      return this.source.slice(container.offset, end(container));
+    }
+    let content = this.source.slice(container.offset, existing[0].offset);
+    existing.forEach((member, index) => {
+      const next = index < existing.length - 1 ? existing[index + 1].offset : end(container);
+      content += texts[index] + this.source.slice(end(member), next);
+    });
+    return content;
+  }
+
+  private formatMember(container: ContainerNode, key: string | null, value: any, format: JsonFormat, indent: string): string {
+    const content = formatValue(value, format, indent);
+    if (key === null) {
+      return content;
+    }
+    return `${formatValue(key, format)}${this.keySeparator(container, format)}${content}`;
+  }
+
+  /**
+   * The comma between members of a single-line container: the one between
+   * its members, else one spaced like its ":" or, in an array, like the
+   * brackets or the document's indentation.
+   */
+  private commaSeparator(container: ContainerNode, between: string): string {
+    if (/^[ \t]*,[ \t]*$/.test(between)) {
+      return between;
+    }
+    if (container.type === 'object') {
+      return /[ \t]$/.test(this.keySeparator(container, this.format)) ? ', ' : ',';
+    }
+    return /^[ \t]/.test(this.source.slice(container.offset + 1)) || this.format.indent !== '' ? ', ' : ',';
+  }
+
+  private keySeparator(container: ContainerNode, format: JsonFormat): string {
+    // Reuse the spacing around ":" that the container already uses
+    if (container.type === 'object' && container.properties.length > 0) {
+      const property = container.properties[container.properties.length - 1];
+      const separator = this.source.slice(end(property.keyNode), property.value.offset);
+      if (/^[ \t]*:[ \t]*$/.test(separator)) {
+        return separator;
+      }
+    }
+    return format.indent === '' ? ':' : ': ';
+  }
+
+  private isMultiline(container: ContainerNode): boolean {
+    const first = members(container)[0];
+    return /\n/.test(this.source.slice(container.offset + 1, first.offset));
+  }
+
+  private lineStart(offset: number): number {
+    return this.source.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  private startsLine(offset: number): boolean {
+    return /^[ \t]*$/.test(this.source.slice(this.lineStart(offset), offset));
+  }
+
+  private lineIndent(offset: number): string {
+    return /^[ \t]*/.exec(this.source.slice(this.lineStart(offset), offset))![0];
+  }
+
+  /**
+   * Offset of the comma that follows a member ending at the given offset.
+   */
+  private findComma(offset: number): number {
+    let pos = offset;
+    while (pos < this.source.length && this.source[pos] !== ',') {
+      pos = this.source.startsWith('/*', pos) ? this.source.indexOf('*/', pos) + 2 : pos + 1;
+    }
+    return pos;
+  }
+
+  /**
+   * Position after the spaces and comments that follow the given offset on
+   * the same line, if the line ends in a line comment; otherwise the offset.
+   */
+  private skipLineComment(offset: number): number {
+    const match = /^(?:[ \t]|\/\*(?:(?!\*\/)[^\n])*\*\/)*/.exec(this.source.slice(offset));
+    const pos = offset + match![0].length;
+    if (!this.source.startsWith('//', pos)) {
+      return /^\r?\n|^$/.test(this.source.slice(pos)) ? pos : offset;
+    }
+    const lineEnd = this.source.indexOf('\n', pos);
+    if (lineEnd === -1) {
+      return this.source.length;
+    }
+    return this.source[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+  }
+
+  /**
+   * Apply non-overlapping edits. Edits at the same offset end up in the order
+   * they are given.
+   */
+  private applyEdits(edits: TextEdit[]): void {
+    const ordered = edits
+      .map((edit, index) => ({ edit, index }))
+      .sort((a, b) => b.edit.offset - a.edit.offset || b.index - a.index);
+
+    let text = this.source;
+    for (const { edit } of ordered) {
+      text = text.slice(0, edit.offset) + edit.content + text.slice(edit.offset + edit.length);
+    }
+    this.source = text;
+    this.root = parseTree(text, this.options);
+  }
+}
@@ -0,0 +1,13 @@
+// Node.js system errors carry a code such as "ENOENT". Errors thrown by the
+// fs module are not always instances of this realm's Error (they are not
+// under Jest, for one), so the code is read without an instanceof check.
+
+/**
+ * The code of a system error, e.g. "ENOENT", or undefined for other errors.
+ */
+export function errorCode(error: unknown): string | undefined {
+  if (typeof error === 'object' && error !== null && 'code' in error && typeof error.code === 'string') {
+    return error.code;
+  }
+  return undefined;
+}
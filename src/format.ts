@@ -0,0 +1,101 @@
+// Detection and reproduction of the textual style of a JSON file, so that
+// rewriting a file after a small edit does not reformat all of it.
+
+export interface JsonFormat {
+  /** One level of indentation; an empty string means a single-line document */
+  indent: string;
+  eol: '\n' | '\r\n';
+  finalNewline: boolean;
+  /** Write non-ASCII characters as \uXXXX escapes */
+  escapeNonAscii: boolean;
+  /** Write "/" as "\/" */
+  escapeSlash: boolean;
+  bom: boolean;
+}
+
+export const DEFAULT_FORMAT: JsonFormat = {
+  indent: '  ',
+  eol: '\n',
+  finalNewline: false,
+  escapeNonAscii: false,
+  escapeSlash: false,
+  bom: false,
+};
+
+/**
+ * Detect the formatting conventions of existing JSON text. Anything that
+ * cannot be determined falls back to DEFAULT_FORMAT.
+ */
+export function detectFormat(text: string): JsonFormat {
+  const bom = text.charCodeAt(0) === 0xfeff;
+  const body = bom ? text.slice(1) : text;
+
+  return {
+    indent: detectIndent(body),
+    eol: body.includes('\r\n') ? '\r\n' : '\n',
+    finalNewline: /\n$/.test(body),
+    escapeNonAscii: !/[^\x00-\x7f]/.test(body) && /(?<!\\)(?:\\\\)*\\u(?!00[0-7])[0-9a-fA-F]{4}/.test(body),
+    escapeSlash: /(?<!\\)(?:\\\\)*\\\//.test(body),
+    bom,
+  };
+}
+
+function detectIndent(text: string): string {
+  // The first indented line sits one level below the root
+  const match = /\n([ \t]+)\S/.exec(text);
+  if (match) {
+    return match[1];
+  }
+
+  // A single-line document with content was deliberately written compact.
+  // Empty containers like "{}" carry no information, so use the default.
+  const trimmed = text.trim();
+  if (!trimmed.includes('\n') && /^[{[]\s*[^\s}\]]/.test(trimmed)) {
+    return '';
+  }
+
+  return DEFAULT_FORMAT.indent;
+}
+
+/**
+ * Serialize a value using the given formatting conventions. Lines after the
+ * first are prefixed with baseIndent so the value can be spliced into a
+ * document at that indentation level.
+ */
+export function formatValue(value: any, format: JsonFormat, baseIndent = ''): string {
+  let content = JSON.stringify(value, null, format.indent);
+  if (content === undefined) {
+    throw new Error(`Cannot serialize value of type ${typeof value} as JSON`);
+  }
+
+  // JSON.stringify escapes line breaks inside strings, and "/" and non-ASCII
+  // characters only ever occur inside strings, so these replacements cannot
+  // touch anything but the structure they are meant for
+  if (format.escapeSlash) {
+    content = content.replace(/\//g, '\\/');
+  }
+  if (format.escapeNonAscii) {
+    content = content.replace(/[\u0080-\uffff]/g, (ch) => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`);
+  }
+  if (format.eol !== '\n' || baseIndent) {
+    content = content.replace(/\n/g, format.eol + baseIndent);
+  }
+
+  return content;
+}
+
+/**
+ * Serialize data as a whole document using the given formatting conventions.
+ */
+export function formatJson(data: any, format: JsonFormat): string {
+  let content = formatValue(data, format);
+
+  if (format.finalNewline) {
+    content += format.eol;
+  }
+  if (format.bom) {
+    content = '\uFEFF' + content;
+  }
+
+  return content;
+}
@@ -0,0 +1,24 @@
+// Access to the committed versions of files, for comparing a file with git HEAD.
+
+import { execFile } from 'child_process';
+import path from 'path';
+
+/**
+ * Read the content a file has in the HEAD commit of the git repository it
+ * belongs to.
+ */
+export function readGitHead(filePath: string): Promise<string> {
+  const directory = path.dirname(path.resolve(filePath));
+  const args = ['show', `HEAD:./${path.basename(filePath)}`];
+
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd: directory, encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const reason = stderr.trim() || error.message;
+        reject(new Error(`Cannot read ${filePath} from git HEAD: ${reason}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
@@ -0,0 +1,27 @@
+// Content hashes for optimistic concurrency. Reads can report the hash of each
+// file, and edits given that hash back are rejected if the file has changed
+// in the meantime, for example because someone edited it by hand.
+
+import { createHash } from 'crypto';
+
+/**
+ * Identify a version of a file's content. Truncated, as it only has to tell
+ * versions of one file apart.
+ */
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Throw if the content does not have the expected hash. Passes when no hash
+ * is expected.
+ */
+export function assertContentHash(filePath: string, content: string, expectedHash?: string): void {
+  if (expectedHash === undefined) {
+    return;
+  }
+  const actualHash = contentHash(content);
+  if (actualHash !== expectedHash) {
+    throw new Error(`File ${filePath} has changed since it was read (expected hash ${expectedHash}, found ${actualHash})`);
+  }
+}
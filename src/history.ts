@@ -0,0 +1,196 @@
+// Undo/redo history of edited files. Every time a file is written, its previous
+// content is kept as a version in a ".json-editor-mcp" directory next to it,
+// so edits can be undone even in files that git does not track. Each version
+// is a file of its own, listed in a small index, so recording an edit never
+// rereads the versions kept before it.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './atomic-write.js';
+import { contentHash } from './hash.js';
+import { readOriginal } from './transaction.js';
+
+export const HISTORY_DIRECTORY = '.json-editor-mcp';
+
+export interface EditHistoryOptions {
+  /** How many versions of each file to keep, 0 turns the history off */
+  limit?: number;
+}
+
+export interface HistoryEntry {
+  /** When the edit was made */
+  timestamp: string;
+  /** Content to restore, or null if the file did not exist */
+  content: string | null;
+  /** Hash of the content that replaced it, which the file must still have */
+  replacedBy: string | null;
+}
+
+interface VersionEntry {
+  /** Number of the version file, or null if the file did not exist */
+  id: number | null;
+  timestamp: string;
+  /** Hash of the content of the version */
+  hash: string | null;
+  replacedBy: string | null;
+}
+
+interface HistoryIndex {
+  /** Number of the next version file */
+  next: number;
+  undo: VersionEntry[];
+  redo: VersionEntry[];
+}
+
+type Stack = 'undo' | 'redo';
+
+function hashOf(content: string | null | undefined): string | null {
+  return content === null || content === undefined ? null : contentHash(content);
+}
+
+export class EditHistory {
+  private readonly limit: number;
+
+  constructor(options: EditHistoryOptions = {}) {
+    this.limit = options.limit ?? 20;
+  }
+
+  /**
+   * Where the versions of a file and their index are kept.
+   */
+  historyDirectory(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    return path.join(path.dirname(resolved), HISTORY_DIRECTORY, 'history', path.basename(resolved));
+  }
+
+  /**
+   * Record that the file's content was replaced. Recording a new edit
+   * discards the edits that were undone before it.
+   */
+  async record(filePath: string, previous: string | undefined, content: string): Promise<void> {
+    if (this.limit <= 0 || previous === content) {
+      return;
+    }
+    const index = await this.readIndex(filePath);
+    const entry = await this.saveVersion(filePath, index, new Date().toISOString(), previous ?? null, contentHash(content));
+    index.undo.push(entry);
+    index.redo = [];
+    await this.writeIndex(filePath, index);
+  }
+
+  /**
+   * Restore the content the file had before its last edit. Returns the
+   * entry of the edit that was undone.
+   */
+  async undo(filePath: string): Promise<HistoryEntry> {
+    return this.step(filePath, 'undo', 'redo');
+  }
+
+  /**
+   * Apply the last undone edit again. Returns the entry of the edit.
+   */
+  async redo(filePath: string): Promise<HistoryEntry> {
+    return this.step(filePath, 'redo', 'undo');
+  }
+
+  /**
+   * The edits that can be undone and redone, most recent first, with the
+   * hash of the content each of them restores.
+   */
+  async list(filePath: string): Promise<Record<Stack, { timestamp: string; hash: string | null }[]>> {
+    const index = await this.readIndex(filePath);
+    const summarize = (entries: VersionEntry[]) =>
+      [...entries].reverse().map((entry) => ({ timestamp: entry.timestamp, hash: entry.hash }));
+    return { undo: summarize(index.undo), redo: summarize(index.redo) };
+  }
+
+  private async step(filePath: string, from: Stack, to: Stack): Promise<HistoryEntry> {
+    const index = await this.readIndex(filePath);
+    const version = index[from].pop();
+    if (!version) {
+      throw new Error(from === 'undo' ? `No edits of ${filePath} to undo` : `No undone edits of ${filePath} to redo`);
+    }
+    const entry: HistoryEntry = {
+      timestamp: version.timestamp,
+      content: await this.readVersion(filePath, version),
+      replacedBy: version.replacedBy,
+    };
+
+    // Restoring over changes made since the edit would silently lose them
+    const current = await readOriginal(filePath);
+    const currentHash = hashOf(current);
+    if (currentHash !== entry.replacedBy) {
+      throw new Error(`File ${filePath} has changed since its last recorded edit (expected hash ${entry.replacedBy}, found ${currentHash}), so it cannot be ${from === 'undo' ? 'undone' : 'redone'}`);
+    }
+
+    if (entry.content === null) {
+      await fs.rm(filePath, { force: true });
+    } else {
+      await writeFileAtomic(filePath, entry.content);
+    }
+    index[to].push(await this.saveVersion(filePath, index, entry.timestamp, current ?? null, version.hash));
+    await this.writeIndex(filePath, index);
+    return entry;
+  }
+
+  private indexPath(filePath: string): string {
+    return path.join(this.historyDirectory(filePath), 'index.json');
+  }
+
+  private versionPath(filePath: string, id: number): string {
+    return path.join(this.historyDirectory(filePath), `${id}${path.extname(filePath)}`);
+  }
+
+  private async saveVersion(filePath: string, index: HistoryIndex, timestamp: string, content: string | null, replacedBy: string | null): Promise<VersionEntry> {
+    if (content === null) {
+      return { id: null, timestamp, hash: null, replacedBy };
+    }
+    const id = index.next++;
+    await fs.mkdir(this.historyDirectory(filePath), { recursive: true });
+    await writeFileAtomic(this.versionPath(filePath, id), content);
+    return { id, timestamp, hash: contentHash(content), replacedBy };
+  }
+
+  private async readVersion(filePath: string, version: VersionEntry): Promise<string | null> {
+    if (version.id === null) {
+      return null;
+    }
+    const content = await readOriginal(this.versionPath(filePath, version.id));
+    if (content === undefined) {
+      throw new Error(`Edit history of ${filePath} is unreadable: version ${version.id} is missing`);
+    }
+    return content;
+  }
+
+  private async readIndex(filePath: string): Promise<HistoryIndex> {
+    const content = await readOriginal(this.indexPath(filePath));
+    if (content === undefined) {
+      return { next: 1, undo: [], redo: [] };
+    }
+    try {
+      const index = JSON.parse(content);
+      return { next: index.next ?? 1, undo: index.undo ?? [], redo: index.redo ?? [] };
+    } catch (error) {
+      throw new Error(`Edit history of ${filePath} is unreadable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Write the index, keeping the most recent versions of each stack, and
+   * remove the version files it no longer lists.
+   */
+  private async writeIndex(filePath: string, index: HistoryIndex): Promise<void> {
+    const trimmed = { next: index.next, undo: index.undo.slice(-this.limit), redo: index.redo.slice(-this.limit) };
+    await fs.mkdir(this.historyDirectory(filePath), { recursive: true });
+    await writeFileAtomic(this.indexPath(filePath), JSON.stringify(trimmed, null, 2) + '\n');
+
+    const kept = new Set([...trimmed.undo, ...trimmed.redo].map((entry) => entry.id));
+    const extension = path.extname(filePath);
+    for (const name of await fs.readdir(this.historyDirectory(filePath))) {
+      const id = name.endsWith(extension) ? name.slice(0, name.length - extension.length) : '';
+      if (/^\d+$/.test(id) && !kept.has(Number(id))) {
+        await fs.rm(path.join(this.historyDirectory(filePath), name), { force: true });
+      }
+    }
+  }
+}
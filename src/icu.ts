@@ -0,0 +1,386 @@
+// ICU MessageFormat, the syntax of next-intl and react-intl messages. The
+// grammar and quoting rules follow @formatjs/icu-messageformat-parser, which
+// those libraries use, so a message accepted here does not crash them.
+//
+//   Hello {name}                                   arguments
+//   {count, number}  {date, date, short}           formatted arguments
+//   {count, plural, =0 {none} one {# item} other {# items}}
+//   {gender, select, female {she} other {they}}    every plural and select needs "other"
+//   <b>bold</b>  <br/>                             rich text tags
+//   '{'  ''                                        quoting: a literal "{" and "'"
+
+import { formatPath } from './path.js';
+
+export class IcuSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'IcuSyntaxError';
+  }
+}
+
+export type IcuElement =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | { type: 'plural' | 'selectordinal' | 'select'; name: string; offset?: number; options: IcuOption[] }
+  | { type: 'tag'; name: string; children: IcuElement[] };
+
+export interface IcuOption {
+  /** Plural category, "=<number>" or select value */
+  selector: string;
+  message: IcuElement[];
+}
+
+type ArgumentType = 'plural' | 'selectordinal' | 'select' | undefined;
+
+const SIMPLE_FORMATS = ['number', 'date', 'time', 'spellout', 'ordinal', 'duration'];
+// Whitespace and ASCII pattern syntax end identifiers
+const IDENTIFIER = /^[^\s!-/:-@[-^`{-~]+/;
+const TAG_NAME = /^[\w\-.\u00b7\u00c0-\uffff]+/;
+const INTEGER = /^[+-]?\d+/;
+
+class IcuParser {
+  private pos = 0;
+
+  constructor(private readonly message: string) {}
+
+  parse(): IcuElement[] {
+    return this.parseMessage(0, undefined, false);
+  }
+
+  private error(message: string, position = this.pos): IcuSyntaxError {
+    const lines = this.message.slice(0, position).split('\n');
+    return new IcuSyntaxError(message, position, lines.length, lines[lines.length - 1].length + 1);
+  }
+
+  private current(): string | undefined {
+    return this.message[this.pos];
+  }
+
+  private skipSpaces(): void {
+    while (/\s/.test(this.current() ?? '')) {
+      this.pos++;
+    }
+  }
+
+  private readIdentifier(): string {
+    const identifier = IDENTIFIER.exec(this.message.slice(this.pos))?.[0] ?? '';
+    this.pos += identifier.length;
+    return identifier;
+  }
+
+  private parseMessage(depth: number, argumentType: ArgumentType, inTag: boolean): IcuElement[] {
+    const elements: IcuElement[] = [];
+    const inPlural = argumentType === 'plural' || argumentType === 'selectordinal';
+
+    while (this.current() !== undefined) {
+      const ch = this.current();
+      const next = this.message[this.pos + 1];
+
+      if (ch === '{') {
+        elements.push(this.parseArgument(depth));
+      } else if (ch === '}' && depth > 0) {
+        break;
+      } else if (ch === '#' && inPlural) {
+        this.pos++;
+        elements.push({ type: 'pound' });
+      } else if (ch === '<' && next === '/') {
+        if (inTag) {
+          break;
+        }
+        throw this.error('Closing tag without an opening tag');
+      } else if (ch === '<' && next !== undefined && /[a-zA-Z]/.test(next)) {
+        elements.push(this.parseTag(depth, argumentType));
+      } else {
+        const value = this.parseText(inPlural);
+        const last = elements[elements.length - 1];
+        if (last?.type === 'text') {
+          last.value += value;
+        } else {
+          elements.push({ type: 'text', value });
+        }
+      }
+    }
+
+    return elements;
+  }
+
+  private parseText(inPlural: boolean): string {
+    const ch = this.current()!;
+    const next = this.message[this.pos + 1];
+
+    if (ch === "'") {
+      if (next === "'") {
+        this.pos += 2;
+        return "'";
+      }
+      // An apostrophe quotes the syntax character after it, up to the next
+      // apostrophe or the end of the message; elsewhere it is a literal
+      if (next === '{' || next === '}' || next === '<' || next === '>' || (next === '#' && inPlural)) {
+        let value = next;
+        this.pos += 2;
+        while (this.current() !== undefined) {
+          if (this.current() === "'" && this.message[this.pos + 1] === "'") {
+            value += "'";
+            this.pos += 2;
+          } else if (this.current() === "'") {
+            this.pos++;
+            break;
+          } else {
+            value += this.message[this.pos++];
+          }
+        }
+        return value;
+      }
+      this.pos++;
+      return "'";
+    }
+
+    // The first character is literal even if it is a syntax character: a "}"
+    // outside of an argument, a "#" outside of a plural or a "<" not
+    // starting a tag
+    let value = ch;
+    this.pos++;
+    while (this.pos < this.message.length && !"{}#<'".includes(this.message[this.pos])) {
+      value += this.message[this.pos++];
+    }
+    return value;
+  }
+
+  private parseArgument(depth: number): IcuElement {
+    const open = this.pos++;
+    this.skipSpaces();
+    if (this.current() === undefined) {
+      throw this.error('Expected "}" to close the argument', open);
+    }
+    if (this.current() === '}') {
+      throw this.error('Empty argument', open);
+    }
+
+    const name = this.readIdentifier();
+    if (name === '') {
+      throw this.error('Expected an argument name');
+    }
+    this.skipSpaces();
+    if (this.current() === undefined) {
+      throw this.error('Expected "}" to close the argument', open);
+    }
+    if (this.current() === '}') {
+      this.pos++;
+      return { type: 'argument', name };
+    }
+    if (this.current() !== ',') {
+      throw this.error(`Expected "," or "}" after argument name "${name}"`);
+    }
+    this.pos++;
+    this.skipSpaces();
+
+    const typeStart = this.pos;
+    const format = this.readIdentifier();
+    if (format === '') {
+      throw this.error('Expected an argument type');
+    }
+    this.skipSpaces();
+
+    if (SIMPLE_FORMATS.includes(format)) {
+      let style: string | undefined;
+      if (this.current() === ',') {
+        this.pos++;
+        this.skipSpaces();
+        const styleStart = this.pos;
+        style = this.parseStyle().trim();
+        if (style === '') {
+          throw this.error(`Expected a style after "${format},"`, styleStart);
+        }
+      }
+      this.closeArgument(open);
+      return { type: 'argument', name, format, style };
+    }
+
+    if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+      if (this.current() !== ',') {
+        throw this.error(`Expected "," and the options of the ${format} argument`);
+      }
+      this.pos++;
+      this.skipSpaces();
+
+      let offset: number | undefined;
+      let selectorStart = this.pos;
+      let selector = this.readIdentifier();
+      if (format !== 'select' && selector === 'offset' && this.current() === ':') {
+        this.pos++;
+        this.skipSpaces();
+        const value = INTEGER.exec(this.message.slice(this.pos))?.[0];
+        if (value === undefined) {
+          throw this.error('Expected a whole number after "offset:"');
+        }
+        this.pos += value.length;
+        offset = Number(value);
+        this.skipSpaces();
+        selectorStart = this.pos;
+        selector = this.readIdentifier();
+      }
+
+      const options = this.parseOptions(format, depth, selector, selectorStart);
+      this.closeArgument(open);
+      return { type: format, name, offset, options };
+    }
+
+    throw this.error(`Unknown argument type "${format}". Expected one of ${[...SIMPLE_FORMATS, 'plural', 'selectordinal', 'select'].join(', ')}`, typeStart);
+  }
+
+  private parseOptions(format: 'plural' | 'selectordinal' | 'select', depth: number, selector: string, selectorStart: number): IcuOption[] {
+    const options: IcuOption[] = [];
+
+    while (true) {
+      if (selector === '') {
+        if (format === 'select' || this.current() !== '=') {
+          break;
+        }
+        this.pos++;
+        const value = INTEGER.exec(this.message.slice(this.pos))?.[0];
+        if (value === undefined) {
+          throw this.error('Expected a number after "="');
+        }
+        this.pos += value.length;
+        selector = `=${value}`;
+      }
+      if (options.some((option) => option.selector === selector)) {
+        throw this.error(`Duplicate ${format} option "${selector}"`, selectorStart);
+      }
+
+      this.skipSpaces();
+      if (this.current() !== '{') {
+        throw this.error(`Expected "{" after the ${format} option "${selector}"`);
+      }
+      const open = this.pos++;
+      const message = this.parseMessage(depth + 1, format, false);
+      if (this.current() !== '}') {
+        throw this.error(`Expected "}" to close the ${format} option "${selector}"`, open);
+      }
+      this.pos++;
+      options.push({ selector, message });
+
+      this.skipSpaces();
+      selectorStart = this.pos;
+      selector = this.readIdentifier();
+    }
+
+    if (options.length === 0) {
+      throw this.error(`Expected ${format} options`);
+    }
+    if (!options.some((option) => option.selector === 'other')) {
+      throw this.error(`The ${format} argument needs an "other" option`);
+    }
+    return options;
+  }
+
+  private parseStyle(): string {
+    // The style runs to the argument's "}", over nested braces and quotes
+    let depth = 0;
+    let style = '';
+
+    while (this.current() !== undefined) {
+      if (this.current() === "'") {
+        const close = this.message.indexOf("'", this.pos + 1);
+        if (close < 0) {
+          throw this.error('Unterminated quote in the argument style');
+        }
+        style += this.message.slice(this.pos, close + 1);
+        this.pos = close + 1;
+        continue;
+      }
+      if (this.current() === '{') {
+        depth++;
+      } else if (this.current() === '}') {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      }
+      style += this.message[this.pos++];
+    }
+    return style;
+  }
+
+  private closeArgument(open: number): void {
+    this.skipSpaces();
+    if (this.current() !== '}') {
+      throw this.error('Expected "}" to close the argument', this.current() === undefined ? open : this.pos);
+    }
+    this.pos++;
+  }
+
+  private parseTag(depth: number, argumentType: ArgumentType): IcuElement {
+    const open = this.pos++;
+    const name = this.readTagName();
+    this.skipSpaces();
+
+    if (this.message.startsWith('/>', this.pos)) {
+      this.pos += 2;
+      return { type: 'tag', name, children: [] };
+    }
+    if (this.current() !== '>') {
+      throw this.error(`Expected ">" to end the tag <${name}>`);
+    }
+    this.pos++;
+
+    const children = this.parseMessage(depth + 1, argumentType, true);
+    if (!this.message.startsWith('</', this.pos)) {
+      throw this.error(`Tag <${name}> is not closed`, open);
+    }
+    const close = this.pos;
+    this.pos += 2;
+    const closingName = this.readTagName();
+    if (closingName !== name) {
+      throw this.error(`Closing tag </${closingName}> does not match <${name}>`, close);
+    }
+    this.skipSpaces();
+    if (this.current() !== '>') {
+      throw this.error(`Expected ">" to end the tag </${name}>`);
+    }
+    this.pos++;
+    return { type: 'tag', name, children };
+  }
+
+  private readTagName(): string {
+    const name = TAG_NAME.exec(this.message.slice(this.pos))?.[0];
+    if (name === undefined) {
+      throw this.error('Expected a tag name');
+    }
+    this.pos += name.length;
+    return name;
+  }
+}
+
+/**
+ * Parse an ICU message. Throws IcuSyntaxError with the position of the first
+ * problem.
+ */
+export function parseIcuMessage(message: string): IcuElement[] {
+  return new IcuParser(message).parse();
+}
+
+/**
+ * Parse every string in the value as an ICU message. The error names the
+ * path of the first invalid one.
+ */
+export function validateIcuMessages(value: any, keys: string[] = []): void {
+  if (typeof value === 'string') {
+    try {
+      parseIcuMessage(value);
+    } catch (error) {
+      const at = keys.length > 0 ? ` at ${formatPath(keys)}` : '';
+      throw new Error(`Invalid ICU message${at}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      validateIcuMessages(item, [...keys, key]);
+    }
+  }
+}
@@ -9,11 +9,39 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { DuplicateKeyEntries, ParseOptions, parseJsonWithDuplicates, setOwnProperty } from './parser.js';
+import { JsonDocument } from './document.js';
+import { formatPath, parsePath, parsePointer } from './path.js';
+import { compileQuery } from './query.js';
+import { JsonPatchOperation, applyJsonPatch } from './patch.js';
+import { applyMergePatch } from './merge-patch.js';
+import { WRITE_MODES, WriteEntry, WriteMode, writeValue } from './write.js';
+import { writeFileAtomic } from './atomic-write.js';
+import { FileLocks } from './lock.js';
+import { assertContentHash, contentHash } from './hash.js';
+import { TRANSACTION_OPS, TransactionOperation, commitStagedFiles, readOriginal } from './transaction.js';
+import { EditHistory } from './history.js';
+import { Backups, backupOptionsFromEnv } from './backup.js';
+import { DIFF_BASES, DiffBase, EditPreview, previewEdit, structuralDiff } from './diff.js';
+import { readGitHead } from './git.js';
+import { KeyReport, PLACEHOLDERS, Placeholder, SyncReport, findMissingKeys, reorderKeys, syncLocale } from './locale.js';
+import { SortOptions, compareKeys, sortKeys } from './sort.js';
+import { validateIcuMessages } from './icu.js';
+import { PlaceholderReport, checkPlaceholders, isKnownLocale, localeOfFile } from './placeholders.js';
 
 class JsonEditorMCPServer {
   private server: Server;
+  private locks: FileLocks;
+  private history: EditHistory;
+  private backups: Backups;
 
   constructor() {
+    // Lockfiles are opt-in, for when other processes edit the same files
+    this.locks = new FileLocks({ lockfile: process.env.JSON_EDITOR_MCP_LOCKFILE === 'true' });
+    const historySize = Number.parseInt(process.env.JSON_EDITOR_MCP_HISTORY_SIZE ?? '', 10);
+    this.history = new EditHistory({ limit: Number.isNaN(historySize) ? undefined : historySize });
+    this.backups = new Backups(backupOptionsFromEnv());
+
     this.server = new Server(
       {
         name: 'json-editor-mcp',
@@ -41,7 +69,7 @@ class JsonEditorMCPServer {
         tools: [
           {
             name: 'merge_duplicate_keys',
-            description: 'Deep merge duplicate keys in a JSON file. Last value wins for primitives, objects merge recursively.',
+            description: 'Deep merge duplicate keys in a JSON file. Last value wins for primitives, objects merge recursively. Only the duplicated keys are rewritten, and files without duplicates are left untouched. A backup of the file is saved first.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -49,13 +77,21 @@ class JsonEditorMCPServer {
                   type: 'string',
                   description: 'Path to the JSON file',
                 },
+                expectedHash: {
+                  type: 'string',
+                  description: 'Hash returned by a read with includeHash. The edit is rejected if the file has changed since',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return a unified diff and the changed paths instead of writing the file',
+                },
               },
               required: ['filePath'],
             },
           },
           {
             name: 'read_multiple_json_values',
-            description: 'Read values from multiple JSON files at a specified path using dot notation. Returns a map of file paths to values.',
+            description: 'Read values from multiple JSON files at a specified path using dot notation or a JSON Pointer. Returns a map of file paths to values.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -66,15 +102,46 @@ class JsonEditorMCPServer {
                 },
                 path: {
                   type: 'string',
-                  description: 'Dot notation path to the value (e.g., "common.welcome")',
+                  description: 'Path to the value in dot notation (e.g., "common.welcome", "errors[\'not.found\']", "items[0]")',
+                },
+                pointer: {
+                  type: 'string',
+                  description: 'RFC 6901 JSON Pointer to the value (e.g., "/common/welcome", "/items/0"). Use instead of path',
+                },
+                includeHash: {
+                  type: 'boolean',
+                  description: 'Also return a hash of each file, to pass as expectedHash to a later edit',
+                },
+              },
+              required: ['filePaths'],
+            },
+          },
+          {
+            name: 'query_json',
+            description: 'Evaluate a JSONPath query against multiple JSON files. Supports wildcards, recursive descent, slices and filters. Returns a map of file paths to the matched paths and values.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of paths to JSON files',
+                },
+                query: {
+                  type: 'string',
+                  description: 'JSONPath query (e.g., "$.pages.*.title", "$..errors[?(@.code > 400)]", "$.items[0:2]")',
+                },
+                includeHash: {
+                  type: 'boolean',
+                  description: 'Also return a hash of each file, to pass as expectedHash to a later edit',
                 },
               },
-              required: ['filePaths', 'path'],
+              required: ['filePaths', 'query'],
             },
           },
           {
             name: 'write_json_values',
-            description: 'Write a value to a JSON file at a specified path using dot notation. Creates missing paths automatically.',
+            description: 'Write a value to a JSON file at a specified path using dot notation or a JSON Pointer. Creates missing paths automatically.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -84,18 +151,243 @@ class JsonEditorMCPServer {
                 },
                 path: {
                   type: 'string',
-                  description: 'Dot notation path to the value (e.g., "common.welcome")',
+                  description: 'Path to the value in dot notation (e.g., "common.welcome", "errors[\'not.found\']", "items[0]")',
+                },
+                pointer: {
+                  type: 'string',
+                  description: 'RFC 6901 JSON Pointer to the value (e.g., "/common/welcome", "/items/0"). Use instead of path',
                 },
                 value: {
                   description: 'Value to write (any JSON-serializable type)',
                 },
+                mode: {
+                  type: 'string',
+                  enum: WRITE_MODES,
+                  description: 'How to combine the value with an existing one: "replace" overwrites it, "merge" (default) sets each key of an object value, "deepMerge" merges objects recursively, "createOnly" fails if the path exists, "updateOnly" fails if it does not',
+                },
+                expectedHash: {
+                  type: 'string',
+                  description: 'Hash returned by a read with includeHash. The edit is rejected if the file has changed since',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return a unified diff and the changed paths instead of writing the file',
+                },
+                validateIcu: {
+                  type: 'boolean',
+                  description: 'Parse every string written as an ICU message (as next-intl does) and reject malformed arguments, plural/select options and tags, with the position of the error',
+                },
+              },
+              required: ['filePath', 'value'],
+            },
+          },
+          {
+            name: 'write_multiple_json_values',
+            description: 'Write many values to one JSON file in a single read and write. Each entry takes a path (or pointer), a value and an optional mode, as write_json_values does. If any entry fails, the file is left unchanged.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file',
+                },
+                entries: {
+                  type: 'array',
+                  description: 'Values to write, applied in order (e.g., [{"path": "pages.about.title", "value": "About"}, {"path": "pages.about.body", "value": "..."}])',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      path: {
+                        type: 'string',
+                        description: 'Path to the value in dot notation',
+                      },
+                      pointer: {
+                        type: 'string',
+                        description: 'RFC 6901 JSON Pointer to the value. Use instead of path',
+                      },
+                      value: {
+                        description: 'Value to write (any JSON-serializable type)',
+                      },
+                      mode: {
+                        type: 'string',
+                        enum: WRITE_MODES,
+                        description: 'How to combine the value with an existing one, as for write_json_values',
+                      },
+                    },
+                    required: ['value'],
+                  },
+                },
+                expectedHash: {
+                  type: 'string',
+                  description: 'Hash returned by a read with includeHash. The edit is rejected if the file has changed since',
+                },
+              },
+              required: ['filePath', 'entries'],
+            },
+          },
+          {
+            name: 'write_json_values_per_file',
+            description: 'Write the same path in multiple JSON files, with a different value for each file. Useful for adding a translation key to every language file at once. Returns a map of file paths to write results.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: {
+                  type: 'string',
+                  description: 'Path to the value in dot notation (e.g., "common.welcome", "errors[\'not.found\']", "items[0]")',
+                },
+                pointer: {
+                  type: 'string',
+                  description: 'RFC 6901 JSON Pointer to the value (e.g., "/common/welcome", "/items/0"). Use instead of path',
+                },
+                values: {
+                  type: 'object',
+                  description: 'Map of absolute file paths to the value to write in each file (e.g., {"/app/messages/en.json": "About", "/app/messages/es.json": "Acerca de"})',
+                  additionalProperties: true,
+                },
+                mode: {
+                  type: 'string',
+                  enum: WRITE_MODES,
+                  description: 'How to combine each value with an existing one, as for write_json_values',
+                },
+                expectedHashes: {
+                  type: 'object',
+                  description: 'Map of file paths to hashes returned by a read with includeHash. Files that have changed since are not edited',
+                  additionalProperties: { type: 'string' },
+                },
+              },
+              required: ['values'],
+            },
+          },
+          {
+            name: 'merge_json',
+            description: 'Merge a value into a JSON file at a specified path using RFC 7386 JSON Merge Patch semantics: objects merge recursively, null members delete keys and any other value replaces the target. Creates missing paths automatically.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file',
+                },
+                path: {
+                  type: 'string',
+                  description: 'Path to the target in dot notation (e.g., "pages.home", "errors[\'not.found\']"). An empty path targets the whole document',
+                },
+                pointer: {
+                  type: 'string',
+                  description: 'RFC 6901 JSON Pointer to the target (e.g., "/pages/home"). Use instead of path',
+                },
+                patch: {
+                  description: 'Merge patch to apply (e.g., {"title": "Home", "subtitle": null})',
+                },
+                expectedHash: {
+                  type: 'string',
+                  description: 'Hash returned by a read with includeHash. The edit is rejected if the file has changed since',
+                },
+              },
+              required: ['filePath', 'patch'],
+            },
+          },
+          {
+            name: 'apply_json_patch',
+            description: 'Apply an RFC 6902 JSON Patch to a JSON file. Operations run in order and the file is only written if all of them succeed, so a failing "test" operation leaves the file untouched.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file',
+                },
+                patch: {
+                  type: 'array',
+                  description: 'Operations to apply, e.g. [{"op": "test", "path": "/version", "value": 1}, {"op": "replace", "path": "/version", "value": 2}]',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      op: {
+                        type: 'string',
+                        enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'],
+                      },
+                      path: {
+                        type: 'string',
+                        description: 'JSON Pointer to the target location',
+                      },
+                      from: {
+                        type: 'string',
+                        description: 'JSON Pointer to the source location, for move and copy',
+                      },
+                      value: {
+                        description: 'Value for add, replace and test',
+                      },
+                    },
+                    required: ['op', 'path'],
+                  },
+                },
+                expectedHash: {
+                  type: 'string',
+                  description: 'Hash returned by a read with includeHash. The edit is rejected if the file has changed since',
+                },
+              },
+              required: ['filePath', 'patch'],
+            },
+          },
+          {
+            name: 'transaction',
+            description: 'Apply operations across several JSON files as one unit: either every file is changed or none is. Operations are applied in order to in-memory copies of the files, which are only written if all operations succeed. If writing a file fails, the files already written are restored.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                operations: {
+                  type: 'array',
+                  description: 'Operations to apply, e.g. [{"op": "write", "filePath": "/app/messages/en.json", "path": "pages.about.title", "value": "About"}, {"op": "delete", "filePath": "/app/messages/es.json", "path": "pages.old"}]',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      op: {
+                        type: 'string',
+                        enum: TRANSACTION_OPS,
+                        description: '"write" and "delete" work like write_json_values and delete_multiple_json_values, "merge" like merge_json and "patch" like apply_json_patch',
+                      },
+                      filePath: {
+                        type: 'string',
+                        description: 'Absolute path to the JSON file',
+                      },
+                      path: {
+                        type: 'string',
+                        description: 'Path in dot notation, for write, delete and merge',
+                      },
+                      pointer: {
+                        type: 'string',
+                        description: 'RFC 6901 JSON Pointer. Use instead of path',
+                      },
+                      value: {
+                        description: 'Value to write, or the merge patch for merge',
+                      },
+                      mode: {
+                        type: 'string',
+                        enum: WRITE_MODES,
+                        description: 'Write mode, for write',
+                      },
+                      patch: {
+                        type: 'array',
+                        description: 'RFC 6902 operations, for patch',
+                        items: { type: 'object' },
+                      },
+                    },
+                    required: ['op', 'filePath'],
+                  },
+                },
+                expectedHashes: {
+                  type: 'object',
+                  description: 'Map of file paths to hashes returned by a read with includeHash. The transaction is rejected if any of the files have changed since',
+                  additionalProperties: { type: 'string' },
+                },
               },
-              required: ['filePath', 'path', 'value'],
+              required: ['operations'],
             },
           },
           {
             name: 'delete_multiple_json_values',
-            description: 'Delete a value at a specified path from multiple JSON files using dot notation. Returns a map of file paths to deletion results.',
+            description: 'Delete a value at a specified path from multiple JSON files using dot notation or a JSON Pointer. A backup of each changed file is saved first. Returns a map of file paths to deletion results, naming the backups.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -106,10 +398,224 @@ class JsonEditorMCPServer {
                 },
                 path: {
                   type: 'string',
-                  description: 'Dot notation path to the value to delete (e.g., "common.welcome")',
+                  description: 'Path to the value to delete in dot notation (e.g., "common.welcome", "errors[\'not.found\']", "items[0]")',
+                },
+                pointer: {
+                  type: 'string',
+                  description: 'RFC 6901 JSON Pointer to the value to delete (e.g., "/common/welcome", "/items/0"). Use instead of path',
+                },
+                expectedHashes: {
+                  type: 'object',
+                  description: 'Map of file paths to hashes returned by a read with includeHash. Files that have changed since are not edited',
+                  additionalProperties: { type: 'string' },
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return a unified diff and the changed paths instead of writing the files',
+                },
+              },
+              required: ['filePaths'],
+            },
+          },
+          {
+            name: 'undo_last_edit',
+            description: 'Undo the last edit of a JSON file made by this server, restoring its previous content. Works for files that are not tracked by git.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file',
+                },
+              },
+              required: ['filePath'],
+            },
+          },
+          {
+            name: 'redo_edit',
+            description: 'Apply the last edit undone by undo_last_edit again. Only possible until the file is edited again.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file',
+                },
+              },
+              required: ['filePath'],
+            },
+          },
+          {
+            name: 'sync_locale_files',
+            description: 'Bring locale files in line with a reference locale file: missing keys are filled with a placeholder and, optionally, keys the reference lacks are removed. Existing keys keep their place; each new key goes next to its neighbours in the reference. Returns, per file, the added and removed leaf paths and the paths that hold an object in one file and a value in the other, which are left as they are.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                referenceFilePath: {
+                  type: 'string',
+                  description: 'Absolute path to the reference locale file (e.g., "/app/messages/en.json")',
+                },
+                filePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of absolute paths to the locale files to update',
+                },
+                placeholder: {
+                  type: 'string',
+                  enum: PLACEHOLDERS,
+                  description: 'What missing strings are filled with: "empty" for "", "source" for the reference text, "todo" (default) for "TODO: <reference text>". Other values are copied from the reference',
+                },
+                removeExtra: {
+                  type: 'boolean',
+                  description: 'Remove the keys the reference does not have (default: false)',
+                },
+                expectedHashes: {
+                  type: 'object',
+                  description: 'Map of file paths to hashes returned by a read with includeHash. Files that have changed since are not edited',
+                  additionalProperties: { type: 'string' },
+                },
+              },
+              required: ['referenceFilePath', 'filePaths'],
+            },
+          },
+          {
+            name: 'reorder_keys',
+            description: 'Order the keys of JSON files as in a reference file, at every level, so that the files line up side by side. Keys the reference lacks follow in their current order. Returns a map of file paths to results.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                referenceFilePath: {
+                  type: 'string',
+                  description: 'Absolute path to the reference file (e.g., "/app/messages/en.json")',
+                },
+                filePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of absolute paths to the files to reorder',
+                },
+                expectedHashes: {
+                  type: 'object',
+                  description: 'Map of file paths to hashes returned by a read with includeHash. Files that have changed since are not edited',
+                  additionalProperties: { type: 'string' },
+                },
+              },
+              required: ['referenceFilePath', 'filePaths'],
+            },
+          },
+          {
+            name: 'sort_json_keys',
+            description: 'Sort the keys of JSON files, e.g. for repositories whose lint rules require sorted keys. By default keys are sorted at every level, case-sensitively, by UTF-16 code units. Array items keep their order. Returns a map of file paths to results.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of absolute paths to the files to sort',
+                },
+                recursive: {
+                  type: 'boolean',
+                  description: 'Sort the keys of nested objects too, including objects inside arrays (default: true). With false, only the top-level keys are sorted',
+                },
+                caseSensitive: {
+                  type: 'boolean',
+                  description: 'Order "B" before "a" (default: true). With false, keys differing only in case keep their order',
+                },
+                locale: {
+                  type: 'string',
+                  description: 'Collate keys for this locale (e.g., "de", "sv") instead of sorting by code units',
+                },
+                natural: {
+                  type: 'boolean',
+                  description: 'Compare runs of digits by their numeric value, so "item2" sorts before "item10" (default: false)',
+                },
+                expectedHashes: {
+                  type: 'object',
+                  description: 'Map of file paths to hashes returned by a read with includeHash. Files that have changed since are not edited',
+                  additionalProperties: { type: 'string' },
+                },
+              },
+              required: ['filePaths'],
+            },
+          },
+          {
+            name: 'diff_json',
+            description: 'Compare a JSON file with another JSON file, with its last backup or with its version in git HEAD. Returns the added, removed and changed paths in dot notation, with their old and new values.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file',
+                },
+                baseFilePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file to compare with. The changes describe how filePath differs from it',
+                },
+                against: {
+                  type: 'string',
+                  enum: DIFF_BASES,
+                  description: 'Compare with the last backup of the file or with its version in git HEAD, instead of another file',
+                },
+              },
+              required: ['filePath'],
+            },
+          },
+          {
+            name: 'find_missing_keys',
+            description: 'Compare locale files with a reference locale file. Returns, per file, the leaf paths the reference has but the file lacks ("missing") and the leaf paths the file has but the reference lacks ("extra"), in dot notation.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                referenceFilePath: {
+                  type: 'string',
+                  description: 'Absolute path to the reference locale file (e.g., "/app/messages/en.json")',
+                },
+                filePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of absolute paths to the locale files to check',
+                },
+              },
+              required: ['referenceFilePath', 'filePaths'],
+            },
+          },
+          {
+            name: 'check_placeholders',
+            description: 'Check that translated messages keep the placeholders of the reference locale file: the same ICU arguments ("{count}", "{name}") and rich text tags ("<b>", "<link>"), and plurals with the categories of their own language, where categories used only for large numbers or fractions are optional. Returns, per file, the mismatches of each message in dot notation. Messages without mismatches are left out.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                referenceFilePath: {
+                  type: 'string',
+                  description: 'Absolute path to the reference locale file (e.g., "/app/messages/en.json")',
+                },
+                filePaths: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of absolute paths to the locale files to check',
+                },
+                locales: {
+                  type: 'object',
+                  description: 'Map of file paths to their locale (e.g., {"/app/messages/pt.json": "pt-BR"}), for the plural categories. By default the locale is taken from the file name ("es.json") or its directory ("es/common.json"); plural categories are not checked for files without a known locale',
+                  additionalProperties: { type: 'string' },
+                },
+              },
+              required: ['referenceFilePath', 'filePaths'],
+            },
+          },
+          {
+            name: 'list_edit_history',
+            description: 'List the edits of a JSON file that can be undone and redone, most recent first, with the time of each edit and the hash of the content it restores.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path to the JSON file',
                 },
               },
-              required: ['filePaths', 'path'],
+              required: ['filePath'],
             },
           },
         ],
@@ -126,13 +632,48 @@ class JsonEditorMCPServer {
       try {
         switch (name) {
           case 'merge_duplicate_keys':
-            return await this.mergeDuplicateKeys(args.filePath as string);
+            return await this.mergeDuplicateKeys(args.filePath as string, args.expectedHash as string | undefined, args.dryRun as boolean | undefined);
           case 'read_multiple_json_values':
-            return await this.readMultipleJsonValues(args.filePaths as string[], args.path as string);
+            return await this.readMultipleJsonValues(args.filePaths as string[], args.path as string | undefined, args.pointer as string | undefined, args.includeHash as boolean | undefined);
+          case 'query_json':
+            return await this.queryJson(args.filePaths as string[], args.query as string, args.includeHash as boolean | undefined);
           case 'write_json_values':
-            return await this.writeJsonValues(args.filePath as string, args.path as string, args.value);
+            return await this.writeJsonValues(args.filePath as string, args.path as string | undefined, args.value, args.pointer as string | undefined, args.mode as WriteMode | undefined, args.expectedHash as string | undefined, args.dryRun as boolean | undefined, args.validateIcu as boolean | undefined);
+          case 'write_multiple_json_values':
+            return await this.writeMultipleJsonValues(args.filePath as string, args.entries as WriteEntry[], args.expectedHash as string | undefined);
+          case 'write_json_values_per_file':
+            return await this.writeJsonValuesPerFile(args.path as string | undefined, args.values as Record<string, any>, args.pointer as string | undefined, args.mode as WriteMode | undefined, args.expectedHashes as Record<string, string> | undefined);
+          case 'merge_json':
+            return await this.mergeJson(args.filePath as string, args.path as string | undefined, args.patch, args.pointer as string | undefined, args.expectedHash as string | undefined);
+          case 'apply_json_patch':
+            return await this.applyJsonPatch(args.filePath as string, args.patch as JsonPatchOperation[], args.expectedHash as string | undefined);
+          case 'transaction':
+            return await this.transaction(args.operations as TransactionOperation[], args.expectedHashes as Record<string, string> | undefined);
           case 'delete_multiple_json_values':
-            return await this.deleteMultipleJsonValues(args.filePaths as string[], args.path as string);
+            return await this.deleteMultipleJsonValues(args.filePaths as string[], args.path as string | undefined, args.pointer as string | undefined, args.expectedHashes as Record<string, string> | undefined, args.dryRun as boolean | undefined);
+          case 'undo_last_edit':
+            return await this.undoLastEdit(args.filePath as string);
+          case 'redo_edit':
+            return await this.redoEdit(args.filePath as string);
+          case 'list_edit_history':
+            return await this.listEditHistory(args.filePath as string);
+          case 'find_missing_keys':
+            return await this.findMissingKeys(args.referenceFilePath as string, args.filePaths as string[]);
+          case 'check_placeholders':
+            return await this.checkPlaceholders(args.referenceFilePath as string, args.filePaths as string[], args.locales as Record<string, string> | undefined);
+          case 'sync_locale_files':
+            return await this.syncLocaleFiles(args.referenceFilePath as string, args.filePaths as string[], args.placeholder as Placeholder | undefined, args.removeExtra as boolean | undefined, args.expectedHashes as Record<string, string> | undefined);
+          case 'reorder_keys':
+            return await this.reorderKeys(args.referenceFilePath as string, args.filePaths as string[], args.expectedHashes as Record<string, string> | undefined);
+          case 'sort_json_keys':
+            return await this.sortJsonKeys(args.filePaths as string[], {
+              recursive: args.recursive as boolean | undefined,
+              caseSensitive: args.caseSensitive as boolean | undefined,
+              locale: args.locale as string | undefined,
+              natural: args.natural as boolean | undefined,
+            }, args.expectedHashes as Record<string, string> | undefined);
+          case 'diff_json':
+            return await this.diffJson(args.filePath as string, args.baseFilePath as string | undefined, args.against as DiffBase | undefined);
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -169,48 +710,86 @@ class JsonEditorMCPServer {
     }
   }
 
-  private async writeJsonValues(filePath: string, path: string, value: any): Promise<CallToolResult> {
-    this.validateAbsolutePath(filePath);
-    
-    let processedValue = value;
-    
-    if (typeof value === 'string') {
+  /**
+   * String values holding JSON or a Python dict are written as the value they
+   * describe.
+   */
+  private parseValue(value: any): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
       try {
-        const parsed = JSON.parse(value);
-        if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) {
-          processedValue = parsed;
-        } else {
-          processedValue = parsed;
-        }
+        return this.parsePythonDict(value);
       } catch {
-        try {
-          processedValue = this.parsePythonDict(value);
-        } catch {
-          processedValue = value;
-        }
+        return value;
       }
     }
+  }
+
+  private writeToDocument(document: JsonDocument, path: string | undefined, value: any, pointer?: string, mode?: WriteMode): void {
+    const keys = this.resolvePath(path, pointer);
+    const processedValue = this.parseValue(value);
     
-    try {
-      let jsonData = await this.readJsonFile(filePath);
-      
-      if (processedValue !== null && typeof processedValue === 'object' && !Array.isArray(processedValue)) {
-        const entries = Object.entries(processedValue);
-        
-        if (entries.length === 0) {
-          this.setValueAtPath(jsonData, path, processedValue);
-        } else {
-          for (const [key, val] of entries) {
-            const nestedPath = path ? `${path}.${key}` : key;
-            this.setValueAtPath(jsonData, nestedPath, val);
-          }
-        }
-      } else {
-        this.setValueAtPath(jsonData, path, processedValue);
-      }
-      
-      await this.writeJsonFile(filePath, jsonData);
-      
+    // An empty dot path writes object values at the top level
+    const isObject = processedValue !== null && typeof processedValue === 'object' && !Array.isArray(processedValue);
+    writeValue(document, path === '' && isObject ? [] : keys, processedValue, mode);
+  }
+
+  private async writeMultipleJsonValues(filePath: string, entries: WriteEntry[], expectedHash?: string): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
+    if (!Array.isArray(entries)) {
+      throw new Error('entries must be an array of {path, value} objects');
+    }
+    
+    await this.editJsonDocument(filePath, (document) => {
+      entries.forEach((entry, index) => {
+        try {
+          this.writeToDocument(document, entry.path, entry.value, entry.pointer, entry.mode);
+        } catch (error) {
+          throw new Error(`Entry ${index} failed, no values were written: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+    }, expectedHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Successfully wrote ${entries.length} values to ${filePath}`,
+        },
+      ],
+    };
+  }
+
+  private async writeJsonValues(filePath: string, path: string | undefined, value: any, pointer?: string, mode?: WriteMode, expectedHash?: string, dryRun?: boolean, validateIcu?: boolean): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
+    
+    try {
+      if (validateIcu) {
+        validateIcuMessages(this.parseValue(value), this.resolvePath(path, pointer));
+      }
+      
+      const edit = (document: JsonDocument) => {
+        this.writeToDocument(document, path, value, pointer, mode);
+      };
+      
+      if (dryRun) {
+        const preview = await this.previewJsonDocument(filePath, edit, expectedHash);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(preview, null, 2),
+            },
+          ],
+        };
+      }
+      
+      await this.editJsonDocument(filePath, edit, expectedHash);
+      
       return {
         content: [
           {
@@ -231,34 +810,225 @@ class JsonEditorMCPServer {
     }
   }
 
-  private async mergeDuplicateKeys(filePath: string): Promise<CallToolResult> {
+  private async mergeDuplicateKeys(filePath: string, expectedHash?: string, dryRun?: boolean): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
+    
+    if (dryRun) {
+      const preview = await this.previewJsonDocument(filePath, (document) => this.mergeDuplicatesInDocument(filePath, document), expectedHash);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(preview, null, 2),
+          },
+        ],
+      };
+    }
+    
+    const result = await this.locks.withLock(filePath, async () => {
+      const document = await this.readJsonDocument(filePath);
+      assertContentHash(filePath, document.text, expectedHash);
+      const original = document.text;
+      // Files without duplicates are left alone, not rewritten or backed up
+      if (!this.mergeDuplicatesInDocument(filePath, document)) {
+        return undefined;
+      }
+      const backupPath = await this.backups.create(filePath, original);
+      await this.writeJsonDocument(filePath, document);
+      return { backupPath };
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: result
+            ? `Successfully merged duplicate keys in ${filePath}${this.describeBackup(result.backupPath)}`
+            : `No duplicate keys found in ${filePath}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Merge the occurrences of each duplicated key into the first one, leaving
+   * the rest of the text as it is. Returns whether there were any duplicates.
+   */
+  private mergeDuplicatesInDocument(filePath: string, document: JsonDocument): boolean {
+    const merges: { keys: string[]; key: string; value: any }[] = [];
+    const collect = (value: any, keys: string[]): void => {
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => collect(item, [...keys, String(index)]));
+        return;
+      }
+      if (!(value instanceof DuplicateKeyEntries)) {
+        return;
+      }
+      const counts = new Map<string, number>();
+      for (const [key] of value.entries) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      const merged = counts.size < value.entries.length ? this.deepMergeDuplicates(value) : undefined;
+      for (const [key, child] of value.entries) {
+        if (counts.get(key) === 1) {
+          collect(child, [...keys, key]);
+        } else if (counts.delete(key)) {
+          merges.push({ keys, key, value: merged[key] });
+        }
+      }
+    };
+    collect(parseJsonWithDuplicates(document.text, this.parseOptions(filePath)), []);
+    document.mergeDuplicateProperties(merges);
+    return merges.length > 0;
+  }
+
+  private async writeJsonValuesPerFile(path: string | undefined, values: Record<string, any>, pointer?: string, mode?: WriteMode, expectedHashes?: Record<string, string>): Promise<CallToolResult> {
+    const filePaths = Object.keys(values ?? {});
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    // Reject an invalid path before touching any file
+    this.resolvePath(path, pointer);
+    
+    const results: Record<string, string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        await this.editJsonDocument(filePath, (document) => {
+          this.writeToDocument(document, path, values[filePath], pointer, mode);
+        }, expectedHashes?.[filePath]);
+        results[filePath] = 'Successfully wrote';
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async mergeJson(filePath: string, path: string | undefined, patch: any, pointer?: string, expectedHash?: string): Promise<CallToolResult> {
     this.validateAbsolutePath(filePath);
-    const jsonData = await this.readJsonFile(filePath);
-    const mergedData = this.deepMergeDuplicates(jsonData);
-    await this.writeJsonFile(filePath, mergedData);
+    const keys = this.resolvePath(path, pointer);
+    
+    await this.editJsonDocument(filePath, (document) => {
+      // An empty dot path targets the whole document
+      applyMergePatch(document, path === '' ? [] : keys, patch);
+    }, expectedHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Successfully merged into ${filePath}`,
+        },
+      ],
+    };
+  }
+
+  private async applyJsonPatch(filePath: string, patch: JsonPatchOperation[], expectedHash?: string): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
+    
+    await this.editJsonDocument(filePath, (document) => {
+      applyJsonPatch(document, patch);
+    }, expectedHash);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Successfully applied ${patch.length} patch operations to ${filePath}`,
+        },
+      ],
+    };
+  }
+
+  private async transaction(operations: TransactionOperation[], expectedHashes?: Record<string, string>): Promise<CallToolResult> {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new Error('operations must be a non-empty array');
+    }
+    for (const operation of operations) {
+      this.validateAbsolutePath(operation.filePath);
+    }
+    const filePaths = [...new Set(operations.map((operation) => operation.filePath))];
+    
+    await this.locks.withLocks(filePaths, async () => {
+      const staged = new Map<string, { document: JsonDocument; original: string | undefined }>();
+      for (const filePath of filePaths) {
+        const original = await readOriginal(filePath);
+        const document = await this.readJsonDocument(filePath);
+        assertContentHash(filePath, document.text, expectedHashes?.[filePath]);
+        staged.set(filePath, { document, original });
+      }
+      
+      operations.forEach((operation, index) => {
+        try {
+          this.applyTransactionOperation(staged.get(operation.filePath)!.document, operation);
+        } catch (error) {
+          throw new Error(`Operation ${index} (${operation.op} in ${operation.filePath}) failed, no files were changed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+      
+      const changed = [...staged]
+        .filter(([, { document, original }]) => document.text !== original)
+        .map(([filePath, { document, original }]) => ({ filePath, original, content: document.text }));
+      await commitStagedFiles(changed);
+      for (const file of changed) {
+        await this.history.record(file.filePath, file.original, file.content);
+      }
+    });
     
     return {
       content: [
         {
           type: 'text',
-          text: `Successfully merged duplicate keys in ${filePath}`,
+          text: `Successfully committed ${operations.length} operations to ${filePaths.length} files`,
         },
       ],
     };
   }
 
-  private async readMultipleJsonValues(filePaths: string[], path: string): Promise<CallToolResult> {
+  private applyTransactionOperation(document: JsonDocument, operation: TransactionOperation): void {
+    switch (operation.op) {
+      case 'write':
+        this.writeToDocument(document, operation.path, operation.value, operation.pointer, operation.mode);
+        break;
+      case 'delete':
+        document.deleteValueAtPath(this.resolvePath(operation.path, operation.pointer));
+        break;
+      case 'merge': {
+        const keys = this.resolvePath(operation.path, operation.pointer);
+        // An empty dot path targets the whole document
+        applyMergePatch(document, operation.path === '' ? [] : keys, operation.value);
+        break;
+      }
+      case 'patch':
+        applyJsonPatch(document, operation.patch ?? []);
+        break;
+      default:
+        throw new Error(`Unknown operation: ${operation.op}. Expected one of ${TRANSACTION_OPS.join(', ')}`);
+    }
+  }
+
+  private async readMultipleJsonValues(filePaths: string[], path: string | undefined, pointer?: string, includeHash?: boolean): Promise<CallToolResult> {
     for (const filePath of filePaths) {
       this.validateAbsolutePath(filePath);
     }
+    const keys = this.resolvePath(path, pointer);
     
     const results: Record<string, any> = {};
     
     for (const filePath of filePaths) {
       try {
-        const jsonData = await this.readJsonFile(filePath);
-        const value = this.getValueAtPath(jsonData, path);
-        results[filePath] = value;
+        const document = await this.readJsonDocument(filePath);
+        const value = document.getValueAtPath(keys);
+        results[filePath] = includeHash ? { value, hash: contentHash(document.text) } : value;
       } catch (error) {
         results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
@@ -274,19 +1044,19 @@ class JsonEditorMCPServer {
     };
   }
 
-  private async deleteMultipleJsonValues(filePaths: string[], path: string): Promise<CallToolResult> {
+  private async queryJson(filePaths: string[], query: string, includeHash?: boolean): Promise<CallToolResult> {
     for (const filePath of filePaths) {
       this.validateAbsolutePath(filePath);
     }
+    const evaluate = compileQuery(query);
     
-    const results: Record<string, string> = {};
+    const results: Record<string, any> = {};
     
     for (const filePath of filePaths) {
       try {
-        const jsonData = await this.readJsonFile(filePath);
-        this.deleteValueAtPath(jsonData, path);
-        await this.writeJsonFile(filePath, jsonData);
-        results[filePath] = 'Successfully deleted';
+        const document = await this.readJsonDocument(filePath);
+        const matches = evaluate(document.value).map(({ keys, value }) => ({ path: formatPath(keys), value }));
+        results[filePath] = includeHash ? { matches, hash: contentHash(document.text) } : matches;
       } catch (error) {
         results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
@@ -302,105 +1072,405 @@ class JsonEditorMCPServer {
     };
   }
 
-  private async readJsonFile(filePath: string): Promise<any> {
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content);
-    } catch (error) {
-      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-        return {};
+  private async deleteMultipleJsonValues(filePaths: string[], path: string | undefined, pointer?: string, expectedHashes?: Record<string, string>, dryRun?: boolean): Promise<CallToolResult> {
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const keys = this.resolvePath(path, pointer);
+    
+    const results: Record<string, string | EditPreview> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        const edit = (document: JsonDocument) => {
+          document.deleteValueAtPath(keys);
+        };
+        if (dryRun) {
+          results[filePath] = await this.previewJsonDocument(filePath, edit, expectedHashes?.[filePath]);
+          continue;
+        }
+        const backupPath = await this.editJsonDocument(filePath, edit, expectedHashes?.[filePath], true);
+        results[filePath] = `Successfully deleted${this.describeBackup(backupPath)}`;
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
-      throw new Error(`Failed to read JSON file: ${error instanceof Error ? error.message : String(error)}`);
     }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
   }
 
-  private async writeJsonFile(filePath: string, data: any): Promise<void> {
-    const content = JSON.stringify(data, null, 2);
-    await fs.mkdir(path.dirname(filePath), { recursive: true });
-    await fs.writeFile(filePath, content, 'utf-8');
+  private async undoLastEdit(filePath: string): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
+    
+    const entry = await this.locks.withLock(filePath, () => this.history.undo(filePath));
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Successfully undid the edit of ${filePath} made at ${entry.timestamp}`,
+        },
+      ],
+    };
   }
 
-  private getValueAtPath(obj: any, path: string): any {
-    const keys = path.split('.');
-    let current = obj;
+  private async redoEdit(filePath: string): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
     
-    for (const key of keys) {
-      if (current === null || current === undefined || typeof current !== 'object') {
-        throw new Error(`Path ${path} not found: ${key} is not an object`);
+    const entry = await this.locks.withLock(filePath, () => this.history.redo(filePath));
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Successfully redid the edit of ${filePath} made at ${entry.timestamp}`,
+        },
+      ],
+    };
+  }
+
+  private async listEditHistory(filePath: string): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
+    
+    const history = await this.history.list(filePath);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(history, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async findMissingKeys(referenceFilePath: string, filePaths: string[]): Promise<CallToolResult> {
+    this.validateAbsolutePath(referenceFilePath);
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const reference = (await this.readJsonDocument(referenceFilePath)).value;
+    
+    const results: Record<string, KeyReport | string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        const document = await this.readJsonDocument(filePath);
+        results[filePath] = findMissingKeys(reference, document.value);
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
-      if (!(key in current)) {
-        throw new Error(`Path ${path} not found: ${key} does not exist`);
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async checkPlaceholders(referenceFilePath: string, filePaths: string[], locales?: Record<string, string>): Promise<CallToolResult> {
+    this.validateAbsolutePath(referenceFilePath);
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    for (const locale of Object.values(locales ?? {})) {
+      if (!isKnownLocale(locale)) {
+        throw new Error(`Unknown locale: ${locale}`);
       }
-      current = current[key];
     }
+    const reference = (await this.readJsonDocument(referenceFilePath)).value;
+    
+    const results: Record<string, Record<string, PlaceholderReport> | string> = {};
     
-    return current;
+    for (const filePath of filePaths) {
+      try {
+        const document = await this.readJsonDocument(filePath);
+        results[filePath] = checkPlaceholders(reference, document.value, locales?.[filePath] ?? localeOfFile(filePath));
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
   }
 
-  private setValueAtPath(obj: any, path: string, value: any): void {
-    const keys = path.split('.');
-    let current = obj;
+  private async syncLocaleFiles(referenceFilePath: string, filePaths: string[], placeholder?: Placeholder, removeExtra?: boolean, expectedHashes?: Record<string, string>): Promise<CallToolResult> {
+    this.validateAbsolutePath(referenceFilePath);
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    if (placeholder !== undefined && !PLACEHOLDERS.includes(placeholder)) {
+      throw new Error(`Unknown placeholder: ${placeholder}. Expected one of ${PLACEHOLDERS.join(', ')}`);
+    }
+    const reference = await this.readJsonDocument(referenceFilePath);
+    
+    const results: Record<string, SyncReport | string> = {};
     
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i];
-      if (!(key in current) || typeof current[key] !== 'object' || current[key] === null) {
-        current[key] = {};
+    for (const filePath of filePaths) {
+      try {
+        let report!: SyncReport;
+        await this.editJsonDocument(filePath, (document) => {
+          report = syncLocale(reference, document, { placeholder, removeExtra });
+        }, expectedHashes?.[filePath]);
+        results[filePath] = report;
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
-      current = current[key];
     }
     
-    current[keys[keys.length - 1]] = value;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
   }
 
-  private deleteValueAtPath(obj: any, path: string): void {
-    const keys = path.split('.');
-    let current = obj;
+  private async reorderKeys(referenceFilePath: string, filePaths: string[], expectedHashes?: Record<string, string>): Promise<CallToolResult> {
+    this.validateAbsolutePath(referenceFilePath);
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const reference = await this.readJsonDocument(referenceFilePath);
     
-    for (let i = 0; i < keys.length - 1; i++) {
-      const key = keys[i];
-      if (current === null || current === undefined || typeof current !== 'object') {
-        throw new Error(`Path ${path} not found: ${key} is not an object`);
+    const results: Record<string, string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        let changed = false;
+        await this.editJsonDocument(filePath, (document) => {
+          // Files already in order keep their exact text
+          changed = reorderKeys(reference, document);
+        }, expectedHashes?.[filePath]);
+        results[filePath] = changed ? 'Successfully reordered' : 'Already in order';
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
-      if (!(key in current)) {
-        throw new Error(`Path ${path} not found: ${key} does not exist`);
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async sortJsonKeys(filePaths: string[], options: SortOptions = {}, expectedHashes?: Record<string, string>): Promise<CallToolResult> {
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const compare = compareKeys(options);
+    
+    const results: Record<string, string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        let changed = false;
+        await this.editJsonDocument(filePath, (document) => {
+          // Files already sorted keep their exact text
+          changed = sortKeys(document, options, compare);
+        }, expectedHashes?.[filePath]);
+        results[filePath] = changed ? 'Successfully sorted' : 'Already sorted';
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
-      current = current[key];
     }
     
-    const lastKey = keys[keys.length - 1];
-    if (current === null || current === undefined || typeof current !== 'object') {
-      throw new Error(`Path ${path} not found: cannot delete from non-object`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async diffJson(filePath: string, baseFilePath?: string, against?: DiffBase): Promise<CallToolResult> {
+    this.validateAbsolutePath(filePath);
+    if ((baseFilePath === undefined) === (against === undefined)) {
+      throw new Error('Provide either baseFilePath or against');
     }
-    if (!(lastKey in current)) {
-      throw new Error(`Path ${path} not found: ${lastKey} does not exist`);
+    
+    let base: string;
+    let baseDocument: JsonDocument;
+    if (baseFilePath !== undefined) {
+      this.validateAbsolutePath(baseFilePath);
+      base = baseFilePath;
+      baseDocument = await this.readJsonDocument(baseFilePath);
+    } else if (against === 'backup') {
+      const backups = await this.backups.list(filePath);
+      if (backups.length === 0) {
+        throw new Error(`No backups of ${filePath}`);
+      }
+      base = backups[backups.length - 1];
+      baseDocument = this.parseJsonDocument(filePath, await fs.readFile(base, 'utf-8'));
+    } else if (against === 'head') {
+      base = 'git HEAD';
+      baseDocument = this.parseJsonDocument(filePath, await readGitHead(filePath));
+    } else {
+      throw new Error(`Unknown diff base: ${against}. Expected one of ${DIFF_BASES.join(', ')}`);
     }
     
-    delete current[lastKey];
+    const document = await this.readJsonDocument(filePath);
+    const changes = structuralDiff(baseDocument.value, document.value);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ base, changes }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async readJsonFile(filePath: string, parse: (content: string) => any = JSON.parse): Promise<any> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return parse(content);
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        return parse('{}');
+      }
+      throw new Error(`Failed to read JSON file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async readJsonDocument(filePath: string): Promise<JsonDocument> {
+    return this.readJsonFile(filePath, (content) => this.parseJsonDocument(filePath, content));
+  }
+
+  private parseJsonDocument(filePath: string, content: string): JsonDocument {
+    return new JsonDocument(content, this.parseOptions(filePath));
+  }
+
+  private parseOptions(filePath: string): ParseOptions {
+    // Comments are only accepted where the file type allows them
+    return { allowComments: path.extname(filePath).toLowerCase() === '.jsonc' };
+  }
+
+
+  /**
+   * Read, edit and write the document while holding the file's lock, so
+   * concurrent edits of the same file cannot overwrite each other. With an
+   * expected hash, the edit is rejected if the file no longer has it. With
+   * backup, the file's content is backed up first if the edit changes it, and
+   * the backup's path is returned.
+   */
+  private async editJsonDocument(filePath: string, edit: (document: JsonDocument) => void, expectedHash?: string, backup = false): Promise<string | undefined> {
+    return this.locks.withLock(filePath, async () => {
+      const document = await this.readJsonDocument(filePath);
+      assertContentHash(filePath, document.text, expectedHash);
+      const original = document.text;
+      edit(document);
+      const backupPath = backup && document.text !== original ? await this.backups.create(filePath, original) : undefined;
+      await this.writeJsonDocument(filePath, document);
+      return backupPath;
+    });
+  }
+
+  /**
+   * Apply the edit to the document in memory only, and describe what it
+   * would change.
+   */
+  private async previewJsonDocument(filePath: string, edit: (document: JsonDocument) => void, expectedHash?: string): Promise<EditPreview> {
+    const document = await this.readJsonDocument(filePath);
+    assertContentHash(filePath, document.text, expectedHash);
+    const oldText = document.text;
+    const oldValue = document.value;
+    edit(document);
+    return previewEdit(filePath, oldText, document.text, oldValue, document.value);
+  }
+
+  private async writeJsonDocument(filePath: string, document: JsonDocument): Promise<void> {
+    await this.writeFileContent(filePath, document.text);
+  }
+
+  private async writeFileContent(filePath: string, content: string): Promise<void> {
+    const previous = await readOriginal(filePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await writeFileAtomic(filePath, content);
+    await this.history.record(filePath, previous, content);
+  }
+
+  /**
+   * Resolve the keys addressed by a tool call, given either a dot notation
+   * path or a JSON Pointer.
+   */
+  private resolvePath(path: string | undefined, pointer: string | undefined): string[] {
+    if (path !== undefined && pointer !== undefined) {
+      throw new Error('Provide either path or pointer, not both');
+    }
+    if (pointer !== undefined) {
+      return parsePointer(pointer);
+    }
+    if (path !== undefined) {
+      return parsePath(path);
+    }
+    throw new Error('Either path or pointer is required');
+  }
+
+  private describeBackup(backupPath: string | undefined): string {
+    return backupPath ? `. Backup saved to ${backupPath}` : '';
   }
 
   private deepMergeDuplicates(obj: any): any {
-    if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
+    if (Array.isArray(obj)) {
+      const items = obj.map((item) => this.deepMergeDuplicates(item));
+      // Arrays without anything to merge are returned as-is
+      return items.every((item, i) => item === obj[i]) ? obj : items;
+    }
+
+    if (obj === null || typeof obj !== 'object') {
       return obj;
     }
 
+    // Objects parsed by parseJsonWithDuplicates still carry every duplicate entry
+    const entries = obj instanceof DuplicateKeyEntries ? obj.entries : Object.entries(obj);
     const result: any = {};
     const seenKeys = new Set<string>();
 
-    for (const [key, value] of Object.entries(obj)) {
+    for (const [key, rawValue] of entries) {
+      const value = this.deepMergeDuplicates(rawValue);
+
       if (seenKeys.has(key)) {
         // Merge with existing value
         const existingValue = result[key];
         if (typeof existingValue === 'object' && typeof value === 'object' && 
             existingValue !== null && value !== null && 
             !Array.isArray(existingValue) && !Array.isArray(value)) {
-          result[key] = this.deepMerge(existingValue, value);
+          setOwnProperty(result, key, this.deepMerge(existingValue, value));
         } else {
           // Last value wins for primitives or incompatible types
-          result[key] = this.deepMergeDuplicates(value);
+          setOwnProperty(result, key, value);
         }
       } else {
         seenKeys.add(key);
-        result[key] = this.deepMergeDuplicates(value);
+        setOwnProperty(result, key, value);
       }
     }
 
@@ -416,15 +1486,16 @@ class JsonEditorMCPServer {
       return source;
     }
 
+    // Spreading defines own properties, so a "__proto__" key is copied as a key
     const result = { ...target };
 
     for (const [key, value] of Object.entries(source)) {
-      if (key in result && typeof result[key] === 'object' && typeof value === 'object' && 
+      if (Object.prototype.hasOwnProperty.call(result, key) && typeof result[key] === 'object' && typeof value === 'object' && 
           result[key] !== null && value !== null && 
           !Array.isArray(result[key]) && !Array.isArray(value)) {
-        result[key] = this.deepMerge(result[key], value);
+        setOwnProperty(result, key, this.deepMerge(result[key], value));
       } else {
-        result[key] = value;
+        setOwnProperty(result, key, value);
       }
     }
 
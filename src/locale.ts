@@ -0,0 +1,272 @@
+// Comparison of locale files against a reference locale. Locale files are
+// compared by their leaf paths: the paths of values that are not objects.
+// Arrays count as leaves, since their items are translated as a whole.
+
+import { JsonDocument } from './document.js';
+import { formatPath } from './path.js';
+
+export interface KeyReport {
+  /** Leaf paths of the reference that the file lacks */
+  missing: string[];
+  /** Leaf paths of the file that the reference lacks */
+  extra: string[];
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Keys of every leaf value, in document order.
+ */
+export function collectLeafKeys(value: any, keys: string[] = []): string[][] {
+  if (!isObject(value)) {
+    return keys.length === 0 ? [] : [keys];
+  }
+  return Object.keys(value).flatMap((key) => collectLeafKeys(value[key], [...keys, key]));
+}
+
+/**
+ * Compare the leaf paths of a locale file with those of the reference.
+ */
+export function findMissingKeys(reference: any, target: any): KeyReport {
+  const referencePaths = collectLeafKeys(reference).map(formatPath);
+  const targetPaths = collectLeafKeys(target).map(formatPath);
+  const inReference = new Set(referencePaths);
+  const inTarget = new Set(targetPaths);
+
+  return {
+    missing: referencePaths.filter((path) => !inTarget.has(path)),
+    extra: targetPaths.filter((path) => !inReference.has(path)),
+  };
+}
+
+export type Placeholder = 'empty' | 'source' | 'todo';
+
+export const PLACEHOLDERS: Placeholder[] = ['empty', 'source', 'todo'];
+
+export interface SyncOptions {
+  /** What missing strings are filled with: "", the reference text, or "TODO: <reference text>" */
+  placeholder?: Placeholder;
+  /** Remove the keys the reference does not have */
+  removeExtra?: boolean;
+}
+
+export interface SyncReport {
+  /** Leaf paths that were filled with a placeholder */
+  added: string[];
+  /** Leaf paths that were removed because the reference lacks them */
+  removed: string[];
+  /** Paths holding an object in one file and a leaf in the other, which are left as they are */
+  conflicts: string[];
+}
+
+/**
+ * The placeholder for a missing value. Only strings are translated, so
+ * other values are copied from the reference.
+ */
+export function placeholderFor(source: any, placeholder: Placeholder): any {
+  if (isObject(source)) {
+    return Object.fromEntries(Object.entries(source).map(([key, value]) => [key, placeholderFor(value, placeholder)]));
+  }
+  if (typeof source !== 'string') {
+    return source;
+  }
+  switch (placeholder) {
+    case 'empty':
+      return '';
+    case 'source':
+      return source;
+    case 'todo':
+      return `TODO: ${source}`;
+    default:
+      throw new Error(`Unknown placeholder: ${placeholder}. Expected one of ${PLACEHOLDERS.join(', ')}`);
+  }
+}
+
+/**
+ * Bring a locale file in line with the reference by editing it in place:
+ * missing keys are filled with placeholders and optionally keys the reference
+ * lacks are deleted. Each missing key is placed after the nearest key before
+ * it in the reference that the file has, or else before the nearest one after
+ * it. Existing keys keep their place and their text.
+ */
+export function syncLocale(reference: JsonDocument, target: JsonDocument, options: SyncOptions = {}): SyncReport {
+  if (!reference.getKeysAtPath([])) {
+    throw new Error('The reference locale file must contain a JSON object');
+  }
+  if (!target.getKeysAtPath([])) {
+    throw new Error('The locale file must contain a JSON object');
+  }
+
+  const placeholder = options.placeholder ?? 'todo';
+  if (!PLACEHOLDERS.includes(placeholder)) {
+    throw new Error(`Unknown placeholder: ${placeholder}. Expected one of ${PLACEHOLDERS.join(', ')}`);
+  }
+
+  const report: SyncReport = { added: [], removed: [], conflicts: [] };
+  const changes: SyncChanges = { levels: [], extras: [] };
+  const targetValue = target.value;
+  compareObject(reference, target, [], reference.value, targetValue, placeholder, report, changes);
+
+  // Objects that are added are filled one level at a time, each level in one edit
+  const added = new Map<string, Set<string>>();
+  for (const additions of changes.levels) {
+    target.addProperties(additions);
+    for (const { keys, entries } of additions) {
+      added.set(JSON.stringify(keys), new Set(entries.map(([key]) => key)));
+    }
+  }
+
+  target.reorderProperties((keys, path) => {
+    const newKeys = added.get(JSON.stringify(path));
+    return newKeys ? placeNewKeys(keys, newKeys, reference.getKeysAtPath(path)!) : undefined;
+  }, false);
+
+  if (options.removeExtra) {
+    for (const keys of changes.extras) {
+      const value = keys.reduce((parent, key) => parent[key], targetValue);
+      report.removed.push(...leafKeysOf(target, keys, value).map(formatPath));
+      target.deleteValueAtPath(keys);
+    }
+  }
+
+  return report;
+}
+
+interface SyncChanges {
+  /** Properties to add, by how deep they are below an object the target has */
+  levels: { keys: string[]; entries: [string, any][] }[][];
+  /** Keys of values the reference lacks */
+  extras: string[][];
+}
+
+/**
+ * Keys of every leaf of the value at the given keys of the document, in
+ * source order.
+ */
+function leafKeysOf(document: JsonDocument, keys: string[], value: any): string[][] {
+  if (!isObject(value)) {
+    return [keys];
+  }
+  return document.getKeysAtPath(keys)!.flatMap((key) => leafKeysOf(document, [...keys, key], value[key]));
+}
+
+function compareObject(
+  reference: JsonDocument,
+  target: JsonDocument,
+  keys: string[],
+  referenceValue: any,
+  targetValue: any,
+  placeholder: Placeholder,
+  report: SyncReport,
+  changes: SyncChanges
+): void {
+  const has = (value: any, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+  const entries: [string, any][] = [];
+
+  for (const key of reference.getKeysAtPath(keys)!) {
+    const childKeys = [...keys, key];
+    if (!has(targetValue, key)) {
+      entries.push([key, addedValue(reference, childKeys, referenceValue[key], placeholder, report, changes, 1)]);
+    } else if (isObject(referenceValue[key]) && isObject(targetValue[key])) {
+      compareObject(reference, target, childKeys, referenceValue[key], targetValue[key], placeholder, report, changes);
+    } else if (isObject(referenceValue[key]) !== isObject(targetValue[key])) {
+      report.conflicts.push(formatPath(childKeys));
+    }
+  }
+
+  if (entries.length > 0) {
+    (changes.levels[0] ??= []).push({ keys, entries });
+  }
+  changes.extras.push(...target.getKeysAtPath(keys)!.filter((key) => !has(referenceValue, key)).map((key) => [...keys, key]));
+}
+
+/**
+ * The value to add for a key the target lacks: a placeholder for a leaf, or
+ * an empty object whose properties are added one level further down.
+ */
+function addedValue(reference: JsonDocument, keys: string[], value: any, placeholder: Placeholder, report: SyncReport, changes: SyncChanges, level: number): any {
+  if (!isObject(value)) {
+    report.added.push(formatPath(keys));
+    return placeholderFor(value, placeholder);
+  }
+  const entries = reference.getKeysAtPath(keys)!.map((key): [string, any] =>
+    [key, addedValue(reference, [...keys, key], value[key], placeholder, report, changes, level + 1)]
+  );
+  if (entries.length > 0) {
+    (changes.levels[level] ??= []).push({ keys, entries });
+  }
+  return {};
+}
+
+/**
+ * The order of an object's keys once the new keys, which were appended, are
+ * moved next to their neighbours in the reference. Existing keys keep their
+ * order.
+ */
+function placeNewKeys(keys: string[], newKeys: Set<string>, referenceKeys: string[]): number[] {
+  // The last occurrence of each key, and the first
+  const indices = new Map(keys.map((key, index) => [key, index]));
+  const firstIndices = new Map([...keys.entries()].reverse().map(([index, key]) => [key, index]));
+  const existing = new Set(keys.filter((key) => !newKeys.has(key)));
+  const before = new Map<string, string[]>();
+  const after = new Map<string, string[]>();
+  let pending: string[] = [];
+  let previous: string | undefined;
+
+  for (const key of referenceKeys) {
+    if (newKeys.has(key)) {
+      if (previous === undefined) {
+        pending.push(key);
+      } else {
+        after.get(previous)!.push(key);
+      }
+    } else if (existing.has(key)) {
+      if (previous === undefined && pending.length > 0) {
+        before.set(key, pending);
+        pending = [];
+      }
+      previous = key;
+      after.set(key, []);
+    }
+  }
+
+  const order: number[] = [];
+  keys.forEach((key, index) => {
+    if (newKeys.has(key)) {
+      return;
+    }
+    // Duplicated keys take their neighbours at their first and last occurrence
+    if (firstIndices.get(key) === index) {
+      order.push(...(before.get(key) ?? []).map((newKey) => indices.get(newKey)!));
+    }
+    order.push(index);
+    if (indices.get(key) === index) {
+      order.push(...(after.get(key) ?? []).map((newKey) => indices.get(newKey)!));
+    }
+  });
+  // Without any reference key to go next to, new keys stay at the end
+  order.push(...pending.map((newKey) => indices.get(newKey)!));
+  return order;
+}
+
+/**
+ * Order the keys of a locale file as in the reference, at every level, by
+ * moving the text of each property. Keys the reference lacks follow in their
+ * current order. Returns whether the file changed.
+ */
+export function reorderKeys(reference: JsonDocument, target: JsonDocument): boolean {
+  return target.reorderProperties((keys, path) => {
+    const referenceKeys = reference.getKeysAtPath(path);
+    if (!referenceKeys) {
+      return undefined;
+    }
+    const rank = (key: string) => {
+      const index = referenceKeys.indexOf(key);
+      return index === -1 ? referenceKeys.length : index;
+    };
+    // Keys with the same rank keep their order, as the sort is stable
+    return keys.map((key, index) => index).sort((a, b) => rank(keys[a]) - rank(keys[b]));
+  }, false);
+}
@@ -0,0 +1,108 @@
+// Serializes edits of the same file. Within this process every edit waits for
+// the previous one on that file to finish; with lockfiles enabled, edits also
+// take a "<file>.lock" next to it, so cooperating processes take turns too.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { errorCode } from './errors.js';
+
+export interface FileLockOptions {
+  /** Also take an advisory lockfile next to the edited file */
+  lockfile?: boolean;
+  /** How long to wait for another process's lockfile before giving up */
+  timeoutMs?: number;
+  /** Lockfiles older than this are assumed to be left over from a crash */
+  staleMs?: number;
+}
+
+const RETRY_DELAY_MS = 25;
+
+export class FileLocks {
+  private readonly queues = new Map<string, Promise<void>>();
+  private readonly options: Required<FileLockOptions>;
+
+  constructor(options: FileLockOptions = {}) {
+    this.options = { lockfile: false, timeoutMs: 5000, staleMs: 30000, ...options };
+  }
+
+  /**
+   * Run the task once every earlier task on the same file has finished.
+   */
+  async withLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+    const key = path.resolve(filePath);
+    const previous = this.queues.get(key) ?? Promise.resolve();
+
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.queues.set(key, tail);
+
+    await previous;
+    try {
+      if (!this.options.lockfile) {
+        return await task();
+      }
+      const lockPath = await this.acquireLockfile(key);
+      try {
+        return await task();
+      } finally {
+        await fs.rm(lockPath, { force: true });
+      }
+    } finally {
+      release();
+      if (this.queues.get(key) === tail) {
+        this.queues.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Run the task while holding the locks of all the files.
+   */
+  async withLocks<T>(filePaths: string[], task: () => Promise<T>): Promise<T> {
+    // Taking locks in a fixed order keeps two callers from each waiting for
+    // a lock the other holds
+    const keys = [...new Set(filePaths.map((filePath) => path.resolve(filePath)))].sort();
+    const run = (index: number): Promise<T> =>
+      index === keys.length ? task() : this.withLock(keys[index], () => run(index + 1));
+    return run(0);
+  }
+
+  private async acquireLockfile(filePath: string): Promise<string> {
+    const lockPath = `${filePath}.lock`;
+    const deadline = Date.now() + this.options.timeoutMs;
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+    while (true) {
+      try {
+        await fs.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+        return lockPath;
+      } catch (error) {
+        if (errorCode(error) !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.isStale(lockPath)) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`File ${filePath} is locked by another process (${lockPath})`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+    }
+  }
+
+  private async isStale(lockPath: string): Promise<boolean> {
+    try {
+      const stats = await fs.stat(lockPath);
+      return Date.now() - stats.mtimeMs > this.options.staleMs;
+    } catch {
+      // Removed in the meantime, so it can be taken right away
+      return true;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// RFC 7386 JSON Merge Patch. Objects in the patch merge recursively into the
+// target, the same way deepMerge combines duplicate keys, except that null
+// members delete what they name. Any other value replaces the target.
+
+import { JsonDocument } from './document.js';
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The value a merge patch produces when there is nothing to merge into: the
+ * patch itself, without the null members that would have deleted something.
+ */
+function withoutNulls(patch: any): any {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value !== null) {
+      Object.defineProperty(result, key, { value: withoutNulls(value), writable: true, enumerable: true, configurable: true });
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge the patch into the value at the given keys, editing only the members
+ * it changes. A null patch deletes the value at the keys.
+ */
+export function applyMergePatch(document: JsonDocument, keys: string[], patch: any): void {
+  const exists = document.hasValueAtPath(keys);
+
+  if (patch === null && keys.length > 0) {
+    if (exists) {
+      document.deleteValueAtPath(keys);
+    }
+    return;
+  }
+
+  if (!isObject(patch) || !exists || !isObject(document.getValueAtPath(keys))) {
+    document.setValueAtPath(keys, withoutNulls(patch));
+    return;
+  }
+
+  for (const [key, value] of Object.entries(patch)) {
+    applyMergePatch(document, [...keys, key], value);
+  }
+}
@@ -0,0 +1,419 @@
+// Hand-written JSON tokenizer and parser.
+//
+// JSON.parse collapses duplicate keys to the last occurrence before we ever get
+// to see them, which makes it useless for repairing files that contain
+// duplicates. This parser keeps every property in source order, together with
+// the offsets of each node, so callers can decide how duplicates are combined.
+
+export interface JsonNodeBase {
+  offset: number;
+  length: number;
+}
+
+export interface ObjectNode extends JsonNodeBase {
+  type: 'object';
+  properties: PropertyNode[];
+}
+
+export interface PropertyNode extends JsonNodeBase {
+  type: 'property';
+  key: string;
+  keyNode: StringNode;
+  value: JsonNode;
+}
+
+export interface ArrayNode extends JsonNodeBase {
+  type: 'array';
+  items: JsonNode[];
+}
+
+export interface StringNode extends JsonNodeBase {
+  type: 'string';
+  value: string;
+}
+
+export interface NumberNode extends JsonNodeBase {
+  type: 'number';
+  value: number;
+}
+
+export interface BooleanNode extends JsonNodeBase {
+  type: 'boolean';
+  value: boolean;
+}
+
+export interface NullNode extends JsonNodeBase {
+  type: 'null';
+  value: null;
+}
+
+export type JsonNode = ObjectNode | ArrayNode | StringNode | NumberNode | BooleanNode | NullNode;
+
+export interface ParseOptions {
+  /** Accept line and block comments, as in JSONC files */
+  allowComments?: boolean;
+}
+
+export class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+/**
+ * Ordered list of the entries of a JSON object, duplicates included.
+ * Produced by parseJsonWithDuplicates in place of plain objects.
+ */
+export class DuplicateKeyEntries {
+  constructor(public readonly entries: Array<[string, any]>) {}
+}
+
+type TokenType = '{' | '}' | '[' | ']' | ':' | ',' | 'string' | 'number' | 'true' | 'false' | 'null' | 'eof';
+
+interface Token {
+  type: TokenType;
+  offset: number;
+  length: number;
+  value?: string | number;
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+class Tokenizer {
+  private pos = 0;
+
+  constructor(private readonly text: string, private readonly options: ParseOptions) {
+    // A leading byte order mark is not part of the document
+    if (text.charCodeAt(0) === 0xfeff) {
+      this.pos = 1;
+    }
+  }
+
+  error(message: string, offset: number): JsonSyntaxError {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < offset && i < this.text.length; i++) {
+      if (this.text[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+    return new JsonSyntaxError(message, offset, line, offset - lineStart + 1);
+  }
+
+  next(): Token {
+    this.skipWhitespace();
+
+    const start = this.pos;
+    if (start >= this.text.length) {
+      return { type: 'eof', offset: start, length: 0 };
+    }
+
+    const ch = this.text[start];
+    switch (ch) {
+      case '{':
+      case '}':
+      case '[':
+      case ']':
+      case ':':
+      case ',':
+        this.pos++;
+        return { type: ch, offset: start, length: 1 };
+      case '"':
+        return this.readString();
+    }
+
+    if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      return this.readNumber();
+    }
+
+    for (const literal of ['true', 'false', 'null'] as const) {
+      if (this.text.startsWith(literal, start)) {
+        this.pos += literal.length;
+        return { type: literal, offset: start, length: literal.length };
+      }
+    }
+
+    throw this.error(`Unexpected character ${JSON.stringify(ch)}`, start);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+        this.pos++;
+      } else if (ch === '/' && this.options.allowComments) {
+        this.skipComment();
+      } else {
+        break;
+      }
+    }
+  }
+
+  private skipComment(): void {
+    const start = this.pos;
+    const next = this.text[start + 1];
+    if (next === '/') {
+      const end = this.text.indexOf('\n', start);
+      this.pos = end === -1 ? this.text.length : end;
+    } else if (next === '*') {
+      const end = this.text.indexOf('*/', start + 2);
+      if (end === -1) {
+        throw this.error('Unterminated comment', start);
+      }
+      this.pos = end + 2;
+    } else {
+      throw this.error('Unexpected character "/"', start);
+    }
+  }
+
+  private readString(): Token {
+    const start = this.pos;
+    let value = '';
+    let chunkStart = ++this.pos;
+
+    while (true) {
+      if (this.pos >= this.text.length) {
+        throw this.error('Unterminated string', start);
+      }
+
+      const code = this.text.charCodeAt(this.pos);
+      if (code === 0x22) {
+        value += this.text.slice(chunkStart, this.pos);
+        this.pos++;
+        return { type: 'string', offset: start, length: this.pos - start, value };
+      }
+      if (code < 0x20) {
+        throw this.error('Unescaped control character in string', this.pos);
+      }
+      if (code !== 0x5c) {
+        this.pos++;
+        continue;
+      }
+
+      value += this.text.slice(chunkStart, this.pos);
+      const escape = this.text[this.pos + 1];
+      if (escape === 'u') {
+        const hex = this.text.slice(this.pos + 2, this.pos + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          throw this.error('Invalid unicode escape', this.pos);
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 6;
+      } else if (escape !== undefined && escape in ESCAPES) {
+        value += ESCAPES[escape];
+        this.pos += 2;
+      } else {
+        throw this.error('Invalid escape sequence', this.pos);
+      }
+      chunkStart = this.pos;
+    }
+  }
+
+  private readNumber(): Token {
+    const start = this.pos;
+    NUMBER_PATTERN.lastIndex = start;
+    const match = NUMBER_PATTERN.exec(this.text);
+    if (!match) {
+      throw this.error('Invalid number', start);
+    }
+    this.pos += match[0].length;
+    return { type: 'number', offset: start, length: match[0].length, value: Number(match[0]) };
+  }
+}
+
+class Parser {
+  private readonly tokenizer: Tokenizer;
+  private token: Token;
+
+  constructor(text: string, options: ParseOptions) {
+    this.tokenizer = new Tokenizer(text, options);
+    this.token = this.tokenizer.next();
+  }
+
+  parseDocument(): JsonNode {
+    const node = this.parseValue();
+    if (!this.at('eof')) {
+      throw this.unexpected();
+    }
+    return node;
+  }
+
+  // Checks go through a method so that TypeScript does not narrow this.token
+  // across calls that advance it
+  private at(type: TokenType): boolean {
+    return this.token.type === type;
+  }
+
+  private advance(): Token {
+    const current = this.token;
+    this.token = this.tokenizer.next();
+    return current;
+  }
+
+  private expect(type: TokenType): Token {
+    if (!this.at(type)) {
+      throw this.unexpected(`expected "${type}"`);
+    }
+    return this.advance();
+  }
+
+  private unexpected(expectation?: string): JsonSyntaxError {
+    const found = this.token.type === 'eof' ? 'end of input' : `token "${this.token.type}"`;
+    const suffix = expectation ? `, ${expectation}` : '';
+    return this.tokenizer.error(`Unexpected ${found}${suffix}`, this.token.offset);
+  }
+
+  private parseValue(): JsonNode {
+    const token = this.token;
+    switch (token.type) {
+      case '{':
+        return this.parseObject();
+      case '[':
+        return this.parseArray();
+      case 'string':
+        this.advance();
+        return { type: 'string', offset: token.offset, length: token.length, value: token.value as string };
+      case 'number':
+        this.advance();
+        return { type: 'number', offset: token.offset, length: token.length, value: token.value as number };
+      case 'true':
+      case 'false':
+        this.advance();
+        return { type: 'boolean', offset: token.offset, length: token.length, value: token.type === 'true' };
+      case 'null':
+        this.advance();
+        return { type: 'null', offset: token.offset, length: token.length, value: null };
+      default:
+        throw this.unexpected('expected a value');
+    }
+  }
+
+  private parseObject(): ObjectNode {
+    const open = this.expect('{');
+    const properties: PropertyNode[] = [];
+
+    if (!this.at('}')) {
+      while (true) {
+        if (!this.at('string')) {
+          throw this.unexpected('expected a property name');
+        }
+        const keyToken = this.advance();
+        const keyNode: StringNode = {
+          type: 'string',
+          offset: keyToken.offset,
+          length: keyToken.length,
+          value: keyToken.value as string,
+        };
+        this.expect(':');
+        const value = this.parseValue();
+        properties.push({
+          type: 'property',
+          offset: keyNode.offset,
+          length: value.offset + value.length - keyNode.offset,
+          key: keyNode.value,
+          keyNode,
+          value,
+        });
+
+        if (!this.at(',')) {
+          break;
+        }
+        this.advance();
+      }
+    }
+
+    const close = this.expect('}');
+    return { type: 'object', offset: open.offset, length: close.offset + 1 - open.offset, properties };
+  }
+
+  private parseArray(): ArrayNode {
+    const open = this.expect('[');
+    const items: JsonNode[] = [];
+
+    if (!this.at(']')) {
+      while (true) {
+        items.push(this.parseValue());
+        if (!this.at(',')) {
+          break;
+        }
+        this.advance();
+      }
+    }
+
+    const close = this.expect(']');
+    return { type: 'array', offset: open.offset, length: close.offset + 1 - open.offset, items };
+  }
+}
+
+/**
+ * Parse JSON text into a node tree that keeps every property, in source order,
+ * with the offset and length of each node.
+ */
+export function parseTree(text: string, options: ParseOptions = {}): JsonNode {
+  return new Parser(text, options).parseDocument();
+}
+
+export function setOwnProperty(target: Record<string, any>, key: string, value: any): void {
+  // Plain assignment of "__proto__" would replace the prototype instead of
+  // creating a property, unlike JSON.parse
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+/**
+ * Convert a node tree to plain values. Duplicate keys resolve the way
+ * JSON.parse resolves them: the last occurrence wins.
+ */
+export function nodeToValue(node: JsonNode): any {
+  switch (node.type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const property of node.properties) {
+        setOwnProperty(result, property.key, nodeToValue(property.value));
+      }
+      return result;
+    }
+    case 'array':
+      return node.items.map(nodeToValue);
+    default:
+      return node.value;
+  }
+}
+
+function nodeToEntries(node: JsonNode): any {
+  switch (node.type) {
+    case 'object':
+      return new DuplicateKeyEntries(
+        node.properties.map((property): [string, any] => [property.key, nodeToEntries(property.value)])
+      );
+    case 'array':
+      return node.items.map(nodeToEntries);
+    default:
+      return node.value;
+  }
+}
+
+/**
+ * Parse JSON text keeping duplicate keys. Every object in the result is a
+ * DuplicateKeyEntries holding all of its entries in source order.
+ */
+export function parseJsonWithDuplicates(text: string, options: ParseOptions = {}): any {
+  return nodeToEntries(parseTree(text, options));
+}
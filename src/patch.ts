@@ -0,0 +1,117 @@
+// RFC 6902 JSON Patch, applied through a JsonDocument so that only the values
+// the patch touches change in the file.
+
+import { JsonDocument } from './document.js';
+import { deepEqual } from './equal.js';
+import { parsePointer } from './path.js';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: any;
+}
+
+export class JsonPatchError extends Error {
+  constructor(public readonly index: number, op: string, message: string) {
+    super(`Patch operation ${index} (${op}) failed: ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+const OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+function add(document: JsonDocument, keys: string[], value: any): void {
+  if (keys.length === 0) {
+    document.setValueAtPath([], value);
+    return;
+  }
+
+  const parentKeys = keys.slice(0, -1);
+  const parent = document.getValueAtPath(parentKeys);
+  const lastKey = keys[keys.length - 1];
+
+  if (Array.isArray(parent)) {
+    // "-" addresses the position after the last item
+    document.insertValueAtPath([...parentKeys, lastKey === '-' ? String(parent.length) : lastKey], value);
+  } else if (parent !== null && typeof parent === 'object') {
+    document.setValueAtPath(keys, value);
+  } else {
+    throw new Error(`cannot add ${lastKey} to a ${parent === null ? 'null' : typeof parent}`);
+  }
+}
+
+function validate(operation: JsonPatchOperation): void {
+  if (!OPERATIONS.includes(operation?.op)) {
+    throw new Error(`unknown op, expected one of ${OPERATIONS.join(', ')}`);
+  }
+  if (typeof operation.path !== 'string') {
+    throw new Error('"path" must be a JSON Pointer string');
+  }
+  if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+    throw new Error('"from" must be a JSON Pointer string');
+  }
+  if ((operation.op === 'add' || operation.op === 'replace' || operation.op === 'test') && !('value' in operation)) {
+    throw new Error('"value" is required');
+  }
+}
+
+function applyOperation(document: JsonDocument, operation: JsonPatchOperation): void {
+  validate(operation);
+  const keys = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      add(document, keys, operation.value);
+      break;
+    case 'remove':
+      document.deleteValueAtPath(keys);
+      break;
+    case 'replace':
+      // Unlike add, replace requires the target to exist
+      document.getValueAtPath(keys);
+      document.setValueAtPath(keys, operation.value);
+      break;
+    case 'move': {
+      const from = parsePointer(operation.from!);
+      if (from.length < keys.length && from.every((key, i) => key === keys[i])) {
+        throw new Error('cannot move a value into one of its own children');
+      }
+      const value = document.getValueAtPath(from);
+      if (from.length === keys.length && from.every((key, i) => key === keys[i])) {
+        break;
+      }
+      document.deleteValueAtPath(from);
+      add(document, keys, value);
+      break;
+    }
+    case 'copy':
+      add(document, keys, document.getValueAtPath(parsePointer(operation.from!)));
+      break;
+    case 'test': {
+      const actual = document.getValueAtPath(keys);
+      if (!deepEqual(actual, operation.value)) {
+        throw new Error(`value at "${operation.path}" is ${JSON.stringify(actual)}, expected ${JSON.stringify(operation.value)}`);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Apply the operations in order. The document is left partly patched when an
+ * operation fails, so callers only write it out once this returns.
+ */
+export function applyJsonPatch(document: JsonDocument, operations: JsonPatchOperation[]): void {
+  if (!Array.isArray(operations)) {
+    throw new Error('Patch must be an array of operations');
+  }
+
+  operations.forEach((operation, index) => {
+    try {
+      applyOperation(document, operation);
+    } catch (error) {
+      throw new JsonPatchError(index, String(operation?.op), error instanceof Error ? error.message : String(error));
+    }
+  });
+}
@@ -0,0 +1,164 @@
+// Path grammar shared by every tool.
+//
+//   common.welcome          dot-separated keys
+//   errors["404"]           bracketed keys, for keys containing dots or brackets
+//   links['https://x.com']  single quotes work too
+//   a.b\.c                  backslash escapes the next character
+//   items[0]                array indices
+
+export class PathSyntaxError extends Error {
+  constructor(path: string, message: string, public readonly position: number) {
+    super(`Invalid path ${JSON.stringify(path)}: ${message} at position ${position}`);
+    this.name = 'PathSyntaxError';
+  }
+}
+
+const SIMPLE_KEY = /^[^.[\]\\]+$/;
+
+class PathParser {
+  private pos = 0;
+
+  constructor(private readonly path: string) {}
+
+  parse(): string[] {
+    const keys = [this.path.startsWith('[') ? this.readBracket() : this.readKey()];
+
+    while (this.pos < this.path.length) {
+      const ch = this.path[this.pos];
+      if (ch === '.') {
+        this.pos++;
+        keys.push(this.readKey());
+      } else if (ch === '[') {
+        keys.push(this.readBracket());
+      } else {
+        throw this.error(`unexpected ${JSON.stringify(ch)}`);
+      }
+    }
+
+    return keys;
+  }
+
+  private error(message: string, position = this.pos): PathSyntaxError {
+    return new PathSyntaxError(this.path, message, position);
+  }
+
+  /**
+   * Read a plain key up to the next "." or "[". Keys may be empty, so "a..b"
+   * addresses the "" key inside "a", as the plain dot notation always did.
+   */
+  private readKey(): string {
+    let key = '';
+
+    while (this.pos < this.path.length && this.path[this.pos] !== '.' && this.path[this.pos] !== '[') {
+      if (this.path[this.pos] === ']') {
+        throw this.error('unexpected "]"');
+      }
+      if (this.path[this.pos] === '\\') {
+        if (this.pos + 1 === this.path.length) {
+          throw this.error('dangling "\\" at the end of the path');
+        }
+        this.pos++;
+      }
+      key += this.path[this.pos++];
+    }
+
+    return key;
+  }
+
+  private readBracket(): string {
+    const open = this.pos++;
+    const quote = this.path[this.pos];
+    let key: string;
+
+    if (quote === '"' || quote === "'") {
+      key = this.readQuoted(quote);
+    } else {
+      const index = /^\d+/.exec(this.path.slice(this.pos))?.[0];
+      if (index === undefined) {
+        throw this.error('expected an array index or a quoted key after "["');
+      }
+      if (index.length > 1 && index.startsWith('0')) {
+        throw this.error(`array index ${index} has a leading zero`);
+      }
+      key = index;
+      this.pos += index.length;
+    }
+
+    if (this.path[this.pos] !== ']') {
+      throw this.error(`expected "]" to close "[" at position ${open}`);
+    }
+    this.pos++;
+    return key;
+  }
+
+  private readQuoted(quote: string): string {
+    const start = this.pos++;
+    let key = '';
+
+    while (this.path[this.pos] !== quote) {
+      if (this.path[this.pos] === '\\') {
+        this.pos++;
+      }
+      if (this.pos >= this.path.length) {
+        throw this.error(`unterminated ${quote === '"' ? 'double' : 'single'}-quoted key`, start);
+      }
+      key += this.path[this.pos++];
+    }
+
+    this.pos++;
+    return key;
+  }
+}
+
+/**
+ * Split a path into the keys it addresses. Array indices are returned as
+ * their decimal string, the same as object keys.
+ */
+export function parsePath(path: string): string[] {
+  return new PathParser(path).parse();
+}
+
+/**
+ * Format keys as a path that parsePath reads back to the same keys. Keys that
+ * cannot be written plainly are bracketed and quoted.
+ */
+export function formatPath(keys: string[]): string {
+  return keys
+    .map((key, index) => {
+      if (SIMPLE_KEY.test(key)) {
+        return index === 0 ? key : `.${key}`;
+      }
+      return `["${key.replace(/["\\]/g, '\\$&')}"]`;
+    })
+    .join('');
+}
+
+/**
+ * Split an RFC 6901 JSON Pointer into the keys it addresses. The empty
+ * pointer addresses the whole document.
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new PathSyntaxError(pointer, 'JSON Pointer must start with "/"', 0);
+  }
+
+  const invalidEscape = /~(?![01])/.exec(pointer);
+  if (invalidEscape) {
+    throw new PathSyntaxError(pointer, '"~" must be followed by "0" or "1"', invalidEscape.index);
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Format keys as an RFC 6901 JSON Pointer.
+ */
+export function formatPointer(keys: string[]): string {
+  return keys.map((key) => `/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
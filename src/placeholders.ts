@@ -0,0 +1,188 @@
+// Consistency of placeholders between a reference locale and its
+// translations. A translation has to use the same ICU arguments and rich text
+// tags as the reference message, and its plurals the categories of its own
+// language: "one" and "other" in English, "one", "few", "many" and "other" in
+// Polish. Categories a language only selects for large numbers or fractions,
+// such as "many" in Spanish, are optional: "other" covers them.
+
+import path from 'path';
+import { IcuElement, parseIcuMessage } from './icu.js';
+import { collectLeafKeys } from './locale.js';
+import { formatPath } from './path.js';
+
+type PluralType = 'plural' | 'selectordinal';
+
+const CATEGORY_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+export interface PlaceholderReport {
+  /** Arguments of the reference message that the translation lacks */
+  missingArguments?: string[];
+  /** Arguments of the translation that the reference message lacks */
+  extraArguments?: string[];
+  missingTags?: string[];
+  extraTags?: string[];
+  /** Plural categories of the translation's language that a plural lacks, as "argument: category" */
+  missingCategories?: string[];
+  /** Optional plural categories that a plural lacks, for information only, as "argument: category" */
+  optionalCategories?: string[];
+  /** Plural categories that the translation's language never selects, as "argument: category" */
+  unusedCategories?: string[];
+  /** Why a message could not be checked */
+  error?: string;
+}
+
+interface Placeholders {
+  arguments: Set<string>;
+  tags: Set<string>;
+  plurals: Map<string, { type: PluralType; categories: Set<string> }>;
+}
+
+function collectPlaceholders(elements: IcuElement[], found: Placeholders): Placeholders {
+  for (const element of elements) {
+    switch (element.type) {
+      case 'argument':
+        found.arguments.add(element.name);
+        break;
+      case 'plural':
+      case 'selectordinal':
+      case 'select':
+        found.arguments.add(element.name);
+        if (element.type !== 'select') {
+          const plural = found.plurals.get(element.name) ?? { type: element.type, categories: new Set<string>() };
+          // Exact matches such as "=0" are not categories
+          element.options.filter((option) => !option.selector.startsWith('=')).forEach((option) => plural.categories.add(option.selector));
+          found.plurals.set(element.name, plural);
+        }
+        element.options.forEach((option) => collectPlaceholders(option.message, found));
+        break;
+      case 'tag':
+        found.tags.add(element.name);
+        collectPlaceholders(element.children, found);
+        break;
+    }
+  }
+  return found;
+}
+
+function placeholdersOf(message: string): Placeholders {
+  return collectPlaceholders(parseIcuMessage(message), { arguments: new Set(), tags: new Set(), plurals: new Map() });
+}
+
+/**
+ * Whether plural rules are known for the locale.
+ */
+export function isKnownLocale(locale: string): boolean {
+  try {
+    return Intl.PluralRules.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The locale of a locale file, taken from its name ("es.json", "pt-BR.json")
+ * or else its directory ("es/common.json").
+ */
+export function localeOfFile(filePath: string): string | undefined {
+  const candidates = [path.basename(filePath, path.extname(filePath)), path.basename(path.dirname(filePath))];
+  return candidates.map((name) => name.replace(/_/g, '-')).find(isKnownLocale);
+}
+
+/**
+ * The plural categories of the locale, and which of them are required: those
+ * selected for some whole number below 1000, and "other".
+ */
+function pluralCategories(locale: string, type: PluralType): { categories: string[]; required: Set<string> } {
+  const rules = new Intl.PluralRules(locale, { type: type === 'plural' ? 'cardinal' : 'ordinal' });
+  const categories = [...rules.resolvedOptions().pluralCategories].sort((a, b) => CATEGORY_ORDER.indexOf(a) - CATEGORY_ORDER.indexOf(b));
+  const required = new Set(['other']);
+  for (let n = 0; n < 1000; n++) {
+    required.add(rules.select(n));
+  }
+  return { categories, required };
+}
+
+/**
+ * Compare the placeholders of a translated message with those of the
+ * reference message. Plural categories are only checked when the locale of
+ * the translation is given; optional categories are listed along with the
+ * other mismatches of a message but are none themselves. Returns undefined
+ * when nothing is amiss.
+ */
+export function comparePlaceholders(reference: string, translation: string, locale?: string): PlaceholderReport | undefined {
+  let expected: Placeholders;
+  let actual: Placeholders;
+  try {
+    expected = placeholdersOf(reference);
+  } catch (error) {
+    return { error: `Invalid ICU message in the reference: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  try {
+    actual = placeholdersOf(translation);
+  } catch (error) {
+    return { error: `Invalid ICU message: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const report: PlaceholderReport = {};
+  const add = (field: Exclude<keyof PlaceholderReport, 'error'>, items: string[]) => {
+    if (items.length > 0) {
+      report[field] = items;
+    }
+  };
+
+  add('missingArguments', [...expected.arguments].filter((name) => !actual.arguments.has(name)));
+  add('extraArguments', [...actual.arguments].filter((name) => !expected.arguments.has(name)));
+  add('missingTags', [...expected.tags].filter((name) => !actual.tags.has(name)).map((name) => `<${name}>`));
+  add('extraTags', [...actual.tags].filter((name) => !expected.tags.has(name)).map((name) => `<${name}>`));
+
+  const optional: string[] = [];
+  if (locale !== undefined) {
+    const missing: string[] = [];
+    const unused: string[] = [];
+    for (const name of new Set([...expected.plurals.keys(), ...actual.plurals.keys()])) {
+      const plural = actual.plurals.get(name);
+      const { categories, required } = pluralCategories(locale, plural?.type ?? expected.plurals.get(name)!.type);
+      const present = plural?.categories ?? new Set<string>();
+      const absent = categories.filter((category) => !present.has(category));
+      missing.push(...absent.filter((category) => required.has(category)).map((category) => `${name}: ${category}`));
+      optional.push(...absent.filter((category) => !required.has(category)).map((category) => `${name}: ${category}`));
+      unused.push(...[...present].filter((category) => !categories.includes(category)).map((category) => `${name}: ${category}`));
+    }
+    add('missingCategories', missing);
+    add('unusedCategories', unused);
+  }
+
+  if (Object.keys(report).length === 0) {
+    return undefined;
+  }
+  // Optional categories alone are no mismatch
+  add('optionalCategories', optional);
+  return report;
+}
+
+/**
+ * Compare the placeholders of every message the reference and the locale file
+ * both have. Returns the reports of the messages with mismatches, by path.
+ */
+export function checkPlaceholders(reference: any, target: any, locale?: string): Record<string, PlaceholderReport> {
+  const reports: [string, PlaceholderReport][] = [];
+
+  for (const keys of collectLeafKeys(reference)) {
+    const referenceMessage = keys.reduce((value, key) => value[key], reference);
+    let message: any = target;
+    for (const key of keys) {
+      const isObject = message !== null && typeof message === 'object' && !Array.isArray(message);
+      message = isObject && Object.prototype.hasOwnProperty.call(message, key) ? message[key] : undefined;
+    }
+    if (typeof referenceMessage !== 'string' || typeof message !== 'string') {
+      continue;
+    }
+
+    const report = comparePlaceholders(referenceMessage, message, locale);
+    if (report) {
+      reports.push([formatPath(keys), report]);
+    }
+  }
+
+  return Object.fromEntries(reports);
+}
@@ -0,0 +1,430 @@
+// JSONPath queries, for reading many values with one expression.
+//
+//   $.pages.*.title                 wildcards
+//   $..errors                       recursive descent
+//   $.items[0,2]  $.items[-1]       indices, negative from the end
+//   $.items[1:3]  $.items[::2]      slices
+//   $['a.b']                        quoted names
+//   $..errors[?(@.code > 400)]      filters with == != < <= > >= && || !
+//   $.users[?(@.email)]             existence tests
+
+import { deepEqual } from './equal.js';
+
+export class QuerySyntaxError extends Error {
+  constructor(query: string, message: string, public readonly position: number) {
+    super(`Invalid query ${JSON.stringify(query)}: ${message} at position ${position}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+export interface QueryMatch {
+  keys: string[];
+  value: any;
+}
+
+type Selector =
+  | { type: 'name'; name: string }
+  | { type: 'wildcard' }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number; step?: number }
+  | { type: 'filter'; expression: Expression };
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+type Expression =
+  | { type: 'or' | 'and'; left: Expression; right: Expression }
+  | { type: 'not'; operand: Expression }
+  | { type: 'compare'; operator: ComparisonOperator; left: Expression; right: Expression }
+  | { type: 'literal'; value: any }
+  | { type: 'query'; relative: boolean; segments: Segment[] };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+const MEMBER_NAME = /^[\w$\u0080-\uffff][\w$\-\u0080-\uffff]*/;
+const INTEGER = /^-?\d+/;
+const NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+
+class QueryParser {
+  private pos = 0;
+
+  constructor(private readonly query: string) {}
+
+  parse(): Segment[] {
+    this.skipSpaces();
+    if (this.query[this.pos] !== '$') {
+      throw this.error('query must start with "$"');
+    }
+    this.pos++;
+
+    const segments = this.parseSegments();
+    this.skipSpaces();
+    if (this.pos < this.query.length) {
+      throw this.error(`unexpected ${JSON.stringify(this.query[this.pos])}`);
+    }
+    return segments;
+  }
+
+  private error(message: string, position = this.pos): QuerySyntaxError {
+    return new QuerySyntaxError(this.query, message, position);
+  }
+
+  private skipSpaces(): void {
+    while (this.query[this.pos] === ' ' || this.query[this.pos] === '\t') {
+      this.pos++;
+    }
+  }
+
+  private parseSegments(): Segment[] {
+    const segments: Segment[] = [];
+
+    while (true) {
+      if (this.query.startsWith('..', this.pos)) {
+        this.pos += 2;
+        segments.push({ descendant: true, selectors: this.parseSelectorsAfterDot() });
+      } else if (this.query[this.pos] === '.') {
+        this.pos++;
+        segments.push({ descendant: false, selectors: this.parseSelectorsAfterDot() });
+      } else if (this.query[this.pos] === '[') {
+        segments.push({ descendant: false, selectors: this.parseBracket() });
+      } else {
+        return segments;
+      }
+    }
+  }
+
+  private parseSelectorsAfterDot(): Selector[] {
+    if (this.query[this.pos] === '*') {
+      this.pos++;
+      return [{ type: 'wildcard' }];
+    }
+    if (this.query[this.pos] === '[') {
+      return this.parseBracket();
+    }
+
+    const name = MEMBER_NAME.exec(this.query.slice(this.pos))?.[0];
+    if (name === undefined) {
+      throw this.error('expected a member name, "*" or "["');
+    }
+    this.pos += name.length;
+    return [{ type: 'name', name }];
+  }
+
+  private parseBracket(): Selector[] {
+    const open = this.pos++;
+    const selectors: Selector[] = [];
+
+    while (true) {
+      this.skipSpaces();
+      selectors.push(this.parseSelector());
+      this.skipSpaces();
+
+      if (this.query[this.pos] === ',') {
+        this.pos++;
+      } else if (this.query[this.pos] === ']') {
+        this.pos++;
+        return selectors;
+      } else {
+        throw this.error(`expected "," or "]" to close "[" at position ${open}`);
+      }
+    }
+  }
+
+  private parseSelector(): Selector {
+    const ch = this.query[this.pos];
+
+    if (ch === '*') {
+      this.pos++;
+      return { type: 'wildcard' };
+    }
+    if (ch === '"' || ch === "'") {
+      return { type: 'name', name: this.parseString() };
+    }
+    if (ch === '?') {
+      this.pos++;
+      this.skipSpaces();
+      return { type: 'filter', expression: this.parseOr() };
+    }
+
+    const start = this.readInteger();
+    this.skipSpaces();
+    if (this.query[this.pos] !== ':') {
+      if (start === undefined) {
+        throw this.error('expected a name, index, slice, "*" or filter');
+      }
+      return { type: 'index', index: start };
+    }
+
+    this.pos++;
+    this.skipSpaces();
+    const end = this.readInteger();
+    this.skipSpaces();
+    let step: number | undefined;
+    if (this.query[this.pos] === ':') {
+      this.pos++;
+      this.skipSpaces();
+      step = this.readInteger();
+    }
+    return { type: 'slice', start, end, step };
+  }
+
+  private readInteger(): number | undefined {
+    const match = INTEGER.exec(this.query.slice(this.pos))?.[0];
+    if (match === undefined) {
+      return undefined;
+    }
+    this.pos += match.length;
+    return Number(match);
+  }
+
+  private parseString(): string {
+    const quote = this.query[this.pos];
+    const start = this.pos++;
+    let value = '';
+
+    while (this.query[this.pos] !== quote) {
+      if (this.query[this.pos] === '\\') {
+        this.pos++;
+      }
+      if (this.pos >= this.query.length) {
+        throw this.error('unterminated string', start);
+      }
+      value += this.query[this.pos++];
+    }
+
+    this.pos++;
+    return value;
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.consume('||')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseUnary();
+    while (this.consume('&&')) {
+      left = { type: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    if (this.query[this.pos] === '!' && this.query[this.pos + 1] !== '=') {
+      this.pos++;
+      this.skipSpaces();
+      return { type: 'not', operand: this.parseUnary() };
+    }
+
+    const left = this.parsePrimary();
+    for (const operator of COMPARISON_OPERATORS) {
+      if (this.consume(operator)) {
+        return { type: 'compare', operator, left, right: this.parsePrimary() };
+      }
+    }
+    return left;
+  }
+
+  private parsePrimary(): Expression {
+    const ch = this.query[this.pos];
+    let expression: Expression;
+
+    if (ch === '(') {
+      this.pos++;
+      this.skipSpaces();
+      expression = this.parseOr();
+      if (!this.consume(')')) {
+        throw this.error('expected ")"');
+      }
+      return expression;
+    }
+
+    if (ch === '@' || ch === '$') {
+      this.pos++;
+      expression = { type: 'query', relative: ch === '@', segments: this.parseSegments() };
+    } else if (ch === '"' || ch === "'") {
+      expression = { type: 'literal', value: this.parseString() };
+    } else {
+      const number = NUMBER.exec(this.query.slice(this.pos))?.[0];
+      const keyword = /^(?:true|false|null)\b/.exec(this.query.slice(this.pos))?.[0];
+      if (number !== undefined) {
+        this.pos += number.length;
+        expression = { type: 'literal', value: Number(number) };
+      } else if (keyword !== undefined) {
+        this.pos += keyword.length;
+        expression = { type: 'literal', value: JSON.parse(keyword) };
+      } else {
+        throw this.error('expected "@", "$", a literal or "("');
+      }
+    }
+
+    this.skipSpaces();
+    return expression;
+  }
+
+  private consume(token: string): boolean {
+    this.skipSpaces();
+    if (!this.query.startsWith(token, this.pos)) {
+      return false;
+    }
+    this.pos += token.length;
+    this.skipSpaces();
+    return true;
+  }
+}
+
+function children(node: QueryMatch): QueryMatch[] {
+  const { keys, value } = node;
+  if (Array.isArray(value)) {
+    return value.map((item, index) => ({ keys: [...keys, String(index)], value: item }));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => ({ keys: [...keys, key], value: item }));
+  }
+  return [];
+}
+
+function descendants(node: QueryMatch): QueryMatch[] {
+  return [node, ...children(node).flatMap(descendants)];
+}
+
+function sliceIndices(length: number, selector: { start?: number; end?: number; step?: number }): number[] {
+  const step = selector.step ?? 1;
+  if (step === 0) {
+    return [];
+  }
+
+  const normalize = (index: number) => (index < 0 ? length + index : index);
+  const indices: number[] = [];
+
+  if (step > 0) {
+    const start = Math.min(Math.max(normalize(selector.start ?? 0), 0), length);
+    const end = Math.min(Math.max(normalize(selector.end ?? length), 0), length);
+    for (let i = start; i < end; i += step) {
+      indices.push(i);
+    }
+  } else {
+    const start = Math.min(Math.max(normalize(selector.start ?? length - 1), -1), length - 1);
+    const end = Math.min(Math.max(selector.end === undefined ? -1 : normalize(selector.end), -1), length - 1);
+    for (let i = start; i > end; i += step) {
+      indices.push(i);
+    }
+  }
+
+  return indices;
+}
+
+function select(node: QueryMatch, selector: Selector, root: any): QueryMatch[] {
+  const { keys, value } = node;
+
+  switch (selector.type) {
+    case 'name':
+      return value !== null && typeof value === 'object' && !Array.isArray(value) &&
+        Object.prototype.hasOwnProperty.call(value, selector.name)
+        ? [{ keys: [...keys, selector.name], value: value[selector.name] }]
+        : [];
+    case 'wildcard':
+      return children(node);
+    case 'index': {
+      if (!Array.isArray(value)) {
+        return [];
+      }
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [{ keys: [...keys, String(index)], value: value[index] }] : [];
+    }
+    case 'slice':
+      return Array.isArray(value)
+        ? sliceIndices(value.length, selector).map((index) => ({ keys: [...keys, String(index)], value: value[index] }))
+        : [];
+    case 'filter':
+      return children(node).filter((child) => test(selector.expression, child.value, root));
+  }
+}
+
+function evaluateSegments(segments: Segment[], start: QueryMatch, root: any): QueryMatch[] {
+  let nodes = [start];
+
+  for (const segment of segments) {
+    const targets = segment.descendant ? nodes.flatMap(descendants) : nodes;
+    nodes = targets.flatMap((node) => segment.selectors.flatMap((selector) => select(node, selector, root)));
+  }
+
+  return nodes;
+}
+
+const NOTHING = Symbol('nothing');
+
+function evaluateValue(expression: Expression, current: any, root: any): any {
+  if (expression.type === 'literal') {
+    return expression.value;
+  }
+  if (expression.type === 'query') {
+    const nodes = evaluateSegments(expression.segments, { keys: [], value: expression.relative ? current : root }, root);
+    // Only queries that select a single value can be compared
+    return nodes.length === 1 ? nodes[0].value : NOTHING;
+  }
+  return test(expression, current, root);
+}
+
+function compare(operator: ComparisonOperator, left: any, right: any): boolean {
+  switch (operator) {
+    case '==':
+      return deepEqual(left, right);
+    case '!=':
+      return !deepEqual(left, right);
+  }
+
+  // Ordering is only defined between two numbers or two strings
+  const comparable = (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+function test(expression: Expression, current: any, root: any): boolean {
+  switch (expression.type) {
+    case 'or':
+      return test(expression.left, current, root) || test(expression.right, current, root);
+    case 'and':
+      return test(expression.left, current, root) && test(expression.right, current, root);
+    case 'not':
+      return !test(expression.operand, current, root);
+    case 'compare':
+      return compare(
+        expression.operator,
+        evaluateValue(expression.left, current, root),
+        evaluateValue(expression.right, current, root)
+      );
+    case 'literal':
+      return expression.value === true;
+    case 'query':
+      // A bare query tests for existence
+      return evaluateSegments(expression.segments, { keys: [], value: expression.relative ? current : root }, root).length > 0;
+  }
+}
+
+/**
+ * Parse a JSONPath query, throwing QuerySyntaxError if it is malformed.
+ */
+export function compileQuery(query: string): (data: any) => QueryMatch[] {
+  const segments = new QueryParser(query).parse();
+  return (data) => evaluateSegments(segments, { keys: [], value: data }, data);
+}
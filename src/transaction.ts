@@ -0,0 +1,81 @@
+// Multi-file transactions. Every operation is first applied to in-memory
+// copies of the files; only when all of them succeed are the files written,
+// and a failed write restores the files already written.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JsonPatchOperation } from './patch.js';
+import { WriteMode } from './write.js';
+import { writeFileAtomic } from './atomic-write.js';
+import { errorCode } from './errors.js';
+
+export interface TransactionOperation {
+  op: 'write' | 'delete' | 'merge' | 'patch';
+  filePath: string;
+  path?: string;
+  pointer?: string;
+  /** The value to write, or the merge patch to apply */
+  value?: any;
+  mode?: WriteMode;
+  patch?: JsonPatchOperation[];
+}
+
+export const TRANSACTION_OPS = ['write', 'delete', 'merge', 'patch'];
+
+export interface StagedFile {
+  filePath: string;
+  /** Content before the transaction, or undefined if the file did not exist */
+  original: string | undefined;
+  content: string;
+}
+
+/**
+ * Read a file's content, or undefined if it does not exist.
+ */
+export async function readOriginal(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if (errorCode(error) === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write every staged file. If a write fails, the files already written get
+ * their original content back, and files created by the transaction are
+ * removed again.
+ */
+export async function commitStagedFiles(files: StagedFile[]): Promise<void> {
+  const written: StagedFile[] = [];
+
+  try {
+    for (const file of files) {
+      await fs.mkdir(path.dirname(file.filePath), { recursive: true });
+      await writeFileAtomic(file.filePath, file.content);
+      written.push(file);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const unrestored: string[] = [];
+
+    for (const file of written.reverse()) {
+      try {
+        if (file.original === undefined) {
+          await fs.rm(file.filePath, { force: true });
+        } else {
+          await writeFileAtomic(file.filePath, file.original);
+        }
+      } catch {
+        unrestored.push(file.filePath);
+      }
+    }
+
+    if (unrestored.length > 0) {
+      throw new Error(`Transaction failed and these files could not be restored: ${unrestored.join(', ')}. Cause: ${message}`);
+    }
+    throw new Error(`Transaction was rolled back, no files were changed: ${message}`);
+  }
+}
@@ -0,0 +1,80 @@
+// How write_json_values combines the written value with what is already at
+// the path.
+//
+//   replace     overwrite the existing value
+//   merge       set each entry of an object value, leaving other keys alone
+//   deepMerge   merge object values recursively, as deepMerge does
+//   createOnly  write only if nothing exists at the path yet
+//   updateOnly  write only if a value already exists at the path
+
+import { JsonDocument } from './document.js';
+import { formatPath } from './path.js';
+
+export type WriteMode = 'replace' | 'merge' | 'deepMerge' | 'createOnly' | 'updateOnly';
+
+export interface WriteEntry {
+  path?: string;
+  pointer?: string;
+  value: any;
+  mode?: WriteMode;
+}
+
+export const WRITE_MODES: WriteMode[] = ['replace', 'merge', 'deepMerge', 'createOnly', 'updateOnly'];
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isObjectAt(document: JsonDocument, keys: string[]): boolean {
+  return document.hasValueAtPath(keys) && isObject(document.getValueAtPath(keys));
+}
+
+function deepMergeInto(document: JsonDocument, keys: string[], value: any): void {
+  if (!isObject(value) || !isObjectAt(document, keys)) {
+    document.setValueAtPath(keys, value);
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    deepMergeInto(document, [...keys, key], item);
+  }
+}
+
+/**
+ * Write the value at the given keys. Merging only applies when both the value
+ * and the existing target are objects; otherwise the value replaces the target.
+ * The default mode is merge.
+ */
+export function writeValue(document: JsonDocument, keys: string[], value: any, mode?: WriteMode): void {
+  switch (mode ?? 'merge') {
+    case 'merge':
+      // Without a mode, an empty object still clears the target, as writes
+      // did before there were modes
+      if (isObject(value) && isObjectAt(document, keys) && !(mode === undefined && Object.keys(value).length === 0)) {
+        for (const [key, item] of Object.entries(value)) {
+          document.setValueAtPath([...keys, key], item);
+        }
+        return;
+      }
+      break;
+    case 'deepMerge':
+      deepMergeInto(document, keys, value);
+      return;
+    case 'createOnly':
+      if (document.hasValueAtPath(keys)) {
+        throw new Error(`Path ${formatPath(keys)} already exists`);
+      }
+      break;
+    case 'updateOnly':
+      if (!document.hasValueAtPath(keys)) {
+        throw new Error(`Path ${formatPath(keys)} does not exist`);
+      }
+      break;
+    case 'replace':
+      break;
+    default:
+      throw new Error(`Unknown write mode: ${mode}. Expected one of ${WRITE_MODES.join(', ')}`);
+  }
+
+  document.setValueAtPath(keys, value);
+}
@@ -1,9 +1,39 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { DuplicateKeyEntries, ParseOptions, parseJsonWithDuplicates, setOwnProperty } from '../src/parser';
+import { DEFAULT_FORMAT, JsonFormat, detectFormat, formatJson } from '../src/format';
+import { JsonDocument } from '../src/document';
+import { formatPath, parsePath, parsePointer } from '../src/path';
+import { compileQuery } from '../src/query';
+import { JsonPatchOperation, applyJsonPatch } from '../src/patch';
+import { applyMergePatch } from '../src/merge-patch';
+import { WriteEntry, WriteMode, writeValue } from '../src/write';
+import { writeFileAtomic } from '../src/atomic-write';
+import { FileLockOptions, FileLocks } from '../src/lock';
+import { assertContentHash, contentHash } from '../src/hash';
+import { TRANSACTION_OPS, TransactionOperation, commitStagedFiles, readOriginal } from '../src/transaction';
+import { EditHistory, EditHistoryOptions, HistoryEntry } from '../src/history';
+import { BackupOptions, Backups } from '../src/backup';
+import { DIFF_BASES, DiffBase, EditPreview, JsonChange, previewEdit, structuralDiff } from '../src/diff';
+import { readGitHead } from '../src/git';
+import { KeyReport, PLACEHOLDERS, Placeholder, SyncReport, findMissingKeys, reorderKeys, syncLocale } from '../src/locale';
+import { SortOptions, compareKeys, sortKeys } from '../src/sort';
+import { validateIcuMessages } from '../src/icu';
+import { PlaceholderReport, checkPlaceholders, isKnownLocale, localeOfFile } from '../src/placeholders';
 
 // Testable version of JsonEditorMCPServer that exposes private methods
 // This version doesn't import the MCP SDK to avoid ESM issues in Jest
 export class JsonEditorMCPServerTestable {
+  private locks: FileLocks;
+  private history: EditHistory;
+  private backups: Backups;
+
+  constructor(lockOptions: FileLockOptions = {}, historyOptions: EditHistoryOptions = {}, backupOptions: BackupOptions = {}) {
+    this.locks = new FileLocks(lockOptions);
+    this.history = new EditHistory(historyOptions);
+    this.backups = new Backups(backupOptions);
+  }
+
   public validateAbsolutePath(filePath: string): void {
     if (!path.isAbsolute(filePath)) {
       throw new Error(`Path must be absolute: ${filePath}`);
@@ -11,7 +41,7 @@ export class JsonEditorMCPServerTestable {
   }
   // Expose private methods for testing
   public deepMergeDuplicates(obj: any, visited = new WeakSet()): any {
-    if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
+    if (obj === null || typeof obj !== 'object') {
       return obj;
     }
 
@@ -26,24 +56,34 @@ export class JsonEditorMCPServerTestable {
     }
     visited.add(obj);
 
+    if (Array.isArray(obj)) {
+      const items = obj.map((item) => this.deepMergeDuplicates(item, visited));
+      // Arrays without anything to merge are returned as-is
+      return items.every((item, i) => item === obj[i]) ? obj : items;
+    }
+
+    // Objects parsed by parseJsonWithDuplicates still carry every duplicate entry
+    const entries = obj instanceof DuplicateKeyEntries ? obj.entries : Object.entries(obj);
     const result: any = {};
     const seenKeys = new Set<string>();
 
-    for (const [key, value] of Object.entries(obj)) {
+    for (const [key, rawValue] of entries) {
+      const value = this.deepMergeDuplicates(rawValue, visited);
+
       if (seenKeys.has(key)) {
         // Merge with existing value
         const existingValue = result[key];
         if (typeof existingValue === 'object' && typeof value === 'object' && 
             existingValue !== null && value !== null && 
             !Array.isArray(existingValue) && !Array.isArray(value)) {
-          result[key] = this.deepMerge(existingValue, value, visited);
+          setOwnProperty(result, key, this.deepMerge(existingValue, value, visited));
         } else {
           // Last value wins for primitives or incompatible types
-          result[key] = value;
+          setOwnProperty(result, key, value);
         }
       } else {
         seenKeys.add(key);
-        result[key] = this.deepMergeDuplicates(value, visited);
+        setOwnProperty(result, key, value);
       }
     }
 
@@ -66,15 +106,16 @@ export class JsonEditorMCPServerTestable {
     visited.add(target);
     visited.add(source);
 
+    // Spreading defines own properties, so a "__proto__" key is copied as a key
     const result = { ...target };
 
     for (const [key, value] of Object.entries(source)) {
-      if (key in result && typeof result[key] === 'object' && typeof value === 'object' && 
+      if (Object.prototype.hasOwnProperty.call(result, key) && typeof result[key] === 'object' && typeof value === 'object' && 
           result[key] !== null && value !== null && 
           !Array.isArray(result[key]) && !Array.isArray(value)) {
-        result[key] = this.deepMerge(result[key], value, visited);
+        setOwnProperty(result, key, this.deepMerge(result[key], value, visited));
       } else {
-        result[key] = value;
+        setOwnProperty(result, key, value);
       }
     }
 
@@ -82,7 +123,7 @@ export class JsonEditorMCPServerTestable {
   }
 
   public getValueAtPath(obj: any, path: string): any {
-    const keys = path.split('.');
+    const keys = parsePath(path);
     let current = obj;
     
     for (const key of keys) {
@@ -99,7 +140,7 @@ export class JsonEditorMCPServerTestable {
   }
 
   public setValueAtPath(obj: any, path: string, value: any): void {
-    const keys = path.split('.');
+    const keys = parsePath(path);
     let current = obj;
     
     for (let i = 0; i < keys.length - 1; i++) {
@@ -113,8 +154,25 @@ export class JsonEditorMCPServerTestable {
     current[keys[keys.length - 1]] = value;
   }
 
+  public resolvePath(path: string | undefined, pointer: string | undefined): string[] {
+    if (path !== undefined && pointer !== undefined) {
+      throw new Error('Provide either path or pointer, not both');
+    }
+    if (pointer !== undefined) {
+      return parsePointer(pointer);
+    }
+    if (path !== undefined) {
+      return parsePath(path);
+    }
+    throw new Error('Either path or pointer is required');
+  }
+
+  private describeBackup(backupPath: string | undefined): string {
+    return backupPath ? `. Backup saved to ${backupPath}` : '';
+  }
+
   public deleteValueAtPath(obj: any, path: string): void {
-    const keys = path.split('.');
+    const keys = parsePath(path);
     let current = obj;
     
     for (let i = 0; i < keys.length - 1; i++) {
@@ -139,43 +197,274 @@ export class JsonEditorMCPServerTestable {
     delete current[lastKey];
   }
 
-  public async readJsonFile(filePath: string): Promise<any> {
+  public async readJsonFile(filePath: string, parse: (content: string) => any = JSON.parse): Promise<any> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content);
+      return parse(content);
     } catch (error) {
       if ((error as any).code === 'ENOENT') {
-        return {};
+        return parse('{}');
       }
       throw new Error(`Failed to read JSON file: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  public async mergeDuplicateKeys(filePath: string): Promise<void> {
+  public async readJsonDocument(filePath: string): Promise<JsonDocument> {
+    return this.readJsonFile(filePath, (content) => this.parseJsonDocument(filePath, content));
+  }
+
+  public parseJsonDocument(filePath: string, content: string): JsonDocument {
+    return new JsonDocument(content, this.parseOptions(filePath));
+  }
+
+  public parseOptions(filePath: string): ParseOptions {
+    // Comments are only accepted where the file type allows them
+    return { allowComments: path.extname(filePath).toLowerCase() === '.jsonc' };
+  }
+
+
+  public async mergeDuplicateKeys(filePath: string, expectedHash?: string, dryRun?: boolean): Promise<string | EditPreview | undefined> {
     this.validateAbsolutePath(filePath);
-    const jsonData = await this.readJsonFile(filePath);
-    const mergedData = this.deepMergeDuplicates(jsonData);
-    await this.writeJsonFile(filePath, mergedData);
+    
+    if (dryRun) {
+      return this.previewJsonDocument(filePath, (document) => this.mergeDuplicatesInDocument(filePath, document), expectedHash);
+    }
+    
+    return this.locks.withLock(filePath, async () => {
+      const document = await this.readJsonDocument(filePath);
+      assertContentHash(filePath, document.text, expectedHash);
+      const original = document.text;
+      // Files without duplicates are left alone, not rewritten or backed up
+      if (!this.mergeDuplicatesInDocument(filePath, document)) {
+        return undefined;
+      }
+      const backupPath = await this.backups.create(filePath, original);
+      await this.writeJsonDocument(filePath, document);
+      return backupPath;
+    });
+  }
+
+  /**
+   * Merge the occurrences of each duplicated key into the first one, leaving
+   * the rest of the text as it is. Returns whether there were any duplicates.
+   */
+  public mergeDuplicatesInDocument(filePath: string, document: JsonDocument): boolean {
+    const merges: { keys: string[]; key: string; value: any }[] = [];
+    const collect = (value: any, keys: string[]): void => {
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => collect(item, [...keys, String(index)]));
+        return;
+      }
+      if (!(value instanceof DuplicateKeyEntries)) {
+        return;
+      }
+      const counts = new Map<string, number>();
+      for (const [key] of value.entries) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      const merged = counts.size < value.entries.length ? this.deepMergeDuplicates(value) : undefined;
+      for (const [key, child] of value.entries) {
+        if (counts.get(key) === 1) {
+          collect(child, [...keys, key]);
+        } else if (counts.delete(key)) {
+          merges.push({ keys, key, value: merged[key] });
+        }
+      }
+    };
+    collect(parseJsonWithDuplicates(document.text, this.parseOptions(filePath)), []);
+    document.mergeDuplicateProperties(merges);
+    return merges.length > 0;
+  }
+
+  /**
+   * Read, edit and write the document while holding the file's lock, so
+   * concurrent edits of the same file cannot overwrite each other. With an
+   * expected hash, the edit is rejected if the file no longer has it. With
+   * backup, the file's content is backed up first if the edit changes it, and
+   * the backup's path is returned.
+   */
+  public async editJsonDocument(filePath: string, edit: (document: JsonDocument) => void, expectedHash?: string, backup = false): Promise<string | undefined> {
+    return this.locks.withLock(filePath, async () => {
+      const document = await this.readJsonDocument(filePath);
+      assertContentHash(filePath, document.text, expectedHash);
+      const original = document.text;
+      edit(document);
+      const backupPath = backup && document.text !== original ? await this.backups.create(filePath, original) : undefined;
+      await this.writeJsonDocument(filePath, document);
+      return backupPath;
+    });
+  }
+
+  /**
+   * Apply the edit to the document in memory only, and describe what it
+   * would change.
+   */
+  public async previewJsonDocument(filePath: string, edit: (document: JsonDocument) => void, expectedHash?: string): Promise<EditPreview> {
+    const document = await this.readJsonDocument(filePath);
+    assertContentHash(filePath, document.text, expectedHash);
+    const oldText = document.text;
+    const oldValue = document.value;
+    edit(document);
+    return previewEdit(filePath, oldText, document.text, oldValue, document.value);
   }
 
   public async writeJsonFile(filePath: string, data: any): Promise<void> {
-    const content = JSON.stringify(data, null, 2);
+    const format = await this.readJsonFormat(filePath);
+    await this.writeFileContent(filePath, formatJson(data, format));
+  }
+
+  public async writeJsonDocument(filePath: string, document: JsonDocument): Promise<void> {
+    await this.writeFileContent(filePath, document.text);
+  }
+
+  public async writeFileContent(filePath: string, content: string): Promise<void> {
+    const previous = await readOriginal(filePath);
     await fs.mkdir(path.dirname(filePath), { recursive: true });
-    await fs.writeFile(filePath, content, 'utf-8');
+    await writeFileAtomic(filePath, content);
+    await this.history.record(filePath, previous, content);
   }
 
-  public async readMultipleJsonValues(filePaths: string[], path: string): Promise<Record<string, any>> {
+  public async readJsonFormat(filePath: string): Promise<JsonFormat> {
+    try {
+      return detectFormat(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      // New or unreadable files get the default formatting
+      return DEFAULT_FORMAT;
+    }
+  }
+
+  public async writeJsonValuesPerFile(path: string | undefined, values: Record<string, any>, pointer?: string, mode?: WriteMode, expectedHashes?: Record<string, string>): Promise<Record<string, string>> {
+    const filePaths = Object.keys(values ?? {});
     for (const filePath of filePaths) {
       this.validateAbsolutePath(filePath);
     }
+    // Reject an invalid path before touching any file
+    this.resolvePath(path, pointer);
+    
+    const results: Record<string, string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        await this.editJsonDocument(filePath, (document) => {
+          this.writeToDocument(document, path, values[filePath], pointer, mode);
+        }, expectedHashes?.[filePath]);
+        results[filePath] = 'Successfully wrote';
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return results;
+  }
+
+  public async mergeJson(filePath: string, path: string | undefined, patch: any, pointer?: string, expectedHash?: string): Promise<void> {
+    this.validateAbsolutePath(filePath);
+    const keys = this.resolvePath(path, pointer);
+    await this.editJsonDocument(filePath, (document) => {
+      // An empty dot path targets the whole document
+      applyMergePatch(document, path === '' ? [] : keys, patch);
+    }, expectedHash);
+  }
+
+  public async applyJsonPatch(filePath: string, patch: JsonPatchOperation[], expectedHash?: string): Promise<void> {
+    this.validateAbsolutePath(filePath);
+    await this.editJsonDocument(filePath, (document) => {
+      applyJsonPatch(document, patch);
+    }, expectedHash);
+  }
+
+  public async transaction(operations: TransactionOperation[], expectedHashes?: Record<string, string>): Promise<void> {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new Error('operations must be a non-empty array');
+    }
+    for (const operation of operations) {
+      this.validateAbsolutePath(operation.filePath);
+    }
+    const filePaths = [...new Set(operations.map((operation) => operation.filePath))];
+    
+    await this.locks.withLocks(filePaths, async () => {
+      const staged = new Map<string, { document: JsonDocument; original: string | undefined }>();
+      for (const filePath of filePaths) {
+        const original = await readOriginal(filePath);
+        const document = await this.readJsonDocument(filePath);
+        assertContentHash(filePath, document.text, expectedHashes?.[filePath]);
+        staged.set(filePath, { document, original });
+      }
+      
+      operations.forEach((operation, index) => {
+        try {
+          this.applyTransactionOperation(staged.get(operation.filePath)!.document, operation);
+        } catch (error) {
+          throw new Error(`Operation ${index} (${operation.op} in ${operation.filePath}) failed, no files were changed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+      
+      const changed = [...staged]
+        .filter(([, { document, original }]) => document.text !== original)
+        .map(([filePath, { document, original }]) => ({ filePath, original, content: document.text }));
+      await commitStagedFiles(changed);
+      for (const file of changed) {
+        await this.history.record(file.filePath, file.original, file.content);
+      }
+    });
+  }
+
+  private applyTransactionOperation(document: JsonDocument, operation: TransactionOperation): void {
+    switch (operation.op) {
+      case 'write':
+        this.writeToDocument(document, operation.path, operation.value, operation.pointer, operation.mode);
+        break;
+      case 'delete':
+        document.deleteValueAtPath(this.resolvePath(operation.path, operation.pointer));
+        break;
+      case 'merge': {
+        const keys = this.resolvePath(operation.path, operation.pointer);
+        // An empty dot path targets the whole document
+        applyMergePatch(document, operation.path === '' ? [] : keys, operation.value);
+        break;
+      }
+      case 'patch':
+        applyJsonPatch(document, operation.patch ?? []);
+        break;
+      default:
+        throw new Error(`Unknown operation: ${operation.op}. Expected one of ${TRANSACTION_OPS.join(', ')}`);
+    }
+  }
+
+  public async readMultipleJsonValues(filePaths: string[], path?: string, pointer?: string, includeHash?: boolean): Promise<Record<string, any>> {
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const keys = this.resolvePath(path, pointer);
     
     const results: Record<string, any> = {};
     
     for (const filePath of filePaths) {
       try {
-        const jsonData = await this.readJsonFile(filePath);
-        const value = this.getValueAtPath(jsonData, path);
-        results[filePath] = value;
+        const document = await this.readJsonDocument(filePath);
+        const value = document.getValueAtPath(keys);
+        results[filePath] = includeHash ? { value, hash: contentHash(document.text) } : value;
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return results;
+  }
+
+  public async queryJson(filePaths: string[], query: string, includeHash?: boolean): Promise<Record<string, any>> {
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const evaluate = compileQuery(query);
+    
+    const results: Record<string, any> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        const document = await this.readJsonDocument(filePath);
+        const matches = evaluate(document.value).map(({ keys, value }) => ({ path: formatPath(keys), value }));
+        results[filePath] = includeHash ? { matches, hash: contentHash(document.text) } : matches;
       } catch (error) {
         results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
@@ -204,53 +493,101 @@ export class JsonEditorMCPServerTestable {
     }
   }
 
-  public async writeMultipleJsonValues(filePaths: string[], path: string, value: any): Promise<Record<string, string>> {
+  private parseValue(value: any): any {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      try {
+        return this.parsePythonDict(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+
+  private writeToDocument(document: JsonDocument, path: string | undefined, value: any, pointer?: string, mode?: WriteMode): void {
+    const keys = this.resolvePath(path, pointer);
+    const processedValue = this.parseValue(value);
+    
+    // An empty dot path writes object values at the top level
+    const isObject = processedValue !== null && typeof processedValue === 'object' && !Array.isArray(processedValue);
+    writeValue(document, path === '' && isObject ? [] : keys, processedValue, mode);
+  }
+
+  // Mirrors the write_multiple_json_values tool, which writes many values to one file
+  public async writeJsonValueEntries(filePath: string, entries: WriteEntry[], expectedHash?: string): Promise<void> {
+    this.validateAbsolutePath(filePath);
+    if (!Array.isArray(entries)) {
+      throw new Error('entries must be an array of {path, value} objects');
+    }
+    
+    await this.editJsonDocument(filePath, (document) => {
+      entries.forEach((entry, index) => {
+        try {
+          this.writeToDocument(document, entry.path, entry.value, entry.pointer, entry.mode);
+        } catch (error) {
+          throw new Error(`Entry ${index} failed, no values were written: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+    }, expectedHash);
+  }
+
+  public async writeMultipleJsonValues(filePaths: string[], path: string | undefined, value: any, pointer?: string, mode?: WriteMode, expectedHashes?: Record<string, string>, dryRun?: boolean, validateIcu?: boolean): Promise<Record<string, string | EditPreview>> {
     for (const filePath of filePaths) {
       this.validateAbsolutePath(filePath);
     }
+    const keys = this.resolvePath(path, pointer);
     
-    const results: Record<string, string> = {};
+    const results: Record<string, string | EditPreview> = {};
     
-    let processedValue = value;
+    const processedValue = this.parseValue(value);
+    if (validateIcu) {
+      validateIcuMessages(processedValue, keys);
+    }
     
-    if (typeof value === 'string') {
+    for (const filePath of filePaths) {
       try {
-        const parsed = JSON.parse(value);
-        if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) {
-          processedValue = parsed;
-        } else {
-          processedValue = parsed;
-        }
-      } catch {
-        try {
-          processedValue = this.parsePythonDict(value);
-        } catch {
-          processedValue = value;
+        const edit = (document: JsonDocument) => {
+          // An empty dot path writes object values at the top level
+          const isObject = processedValue !== null && typeof processedValue === 'object' && !Array.isArray(processedValue);
+          writeValue(document, path === '' && isObject ? [] : keys, processedValue, mode);
+        };
+        if (dryRun) {
+          results[filePath] = await this.previewJsonDocument(filePath, edit, expectedHashes?.[filePath]);
+          continue;
         }
+        await this.editJsonDocument(filePath, edit, expectedHashes?.[filePath]);
+        results[filePath] = 'Successfully wrote';
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
     }
     
+    return results;
+  }
+
+  public async deleteMultipleJsonValues(filePaths: string[], path?: string, pointer?: string, expectedHashes?: Record<string, string>, dryRun?: boolean): Promise<Record<string, string | EditPreview>> {
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const keys = this.resolvePath(path, pointer);
+    
+    const results: Record<string, string | EditPreview> = {};
+    
     for (const filePath of filePaths) {
       try {
-        let jsonData = await this.readJsonFile(filePath);
-        
-        if (processedValue !== null && typeof processedValue === 'object' && !Array.isArray(processedValue)) {
-          const entries = Object.entries(processedValue);
-          
-          if (entries.length === 0) {
-            this.setValueAtPath(jsonData, path, processedValue);
-          } else {
-            for (const [key, val] of entries) {
-              const nestedPath = path ? `${path}.${key}` : key;
-              this.setValueAtPath(jsonData, nestedPath, val);
-            }
-          }
-        } else {
-          this.setValueAtPath(jsonData, path, processedValue);
+        const edit = (document: JsonDocument) => {
+          document.deleteValueAtPath(keys);
+        };
+        if (dryRun) {
+          results[filePath] = await this.previewJsonDocument(filePath, edit, expectedHashes?.[filePath]);
+          continue;
         }
-        
-        await this.writeJsonFile(filePath, jsonData);
-        results[filePath] = 'Successfully wrote';
+        const backupPath = await this.editJsonDocument(filePath, edit, expectedHashes?.[filePath], true);
+        results[filePath] = `Successfully deleted${this.describeBackup(backupPath)}`;
       } catch (error) {
         results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
@@ -259,19 +596,167 @@ export class JsonEditorMCPServerTestable {
     return results;
   }
 
-  public async deleteMultipleJsonValues(filePaths: string[], path: string): Promise<Record<string, string>> {
+  public async undoLastEdit(filePath: string): Promise<HistoryEntry> {
+    this.validateAbsolutePath(filePath);
+    return this.locks.withLock(filePath, () => this.history.undo(filePath));
+  }
+
+  public async redoEdit(filePath: string): Promise<HistoryEntry> {
+    this.validateAbsolutePath(filePath);
+    return this.locks.withLock(filePath, () => this.history.redo(filePath));
+  }
+
+  public async listEditHistory(filePath: string): Promise<Record<string, { timestamp: string; hash: string | null }[]>> {
+    this.validateAbsolutePath(filePath);
+    return this.history.list(filePath);
+  }
+
+  public async diffJson(filePath: string, baseFilePath?: string, against?: DiffBase): Promise<{ base: string; changes: JsonChange[] }> {
+    this.validateAbsolutePath(filePath);
+    if ((baseFilePath === undefined) === (against === undefined)) {
+      throw new Error('Provide either baseFilePath or against');
+    }
+    
+    let base: string;
+    let baseDocument: JsonDocument;
+    if (baseFilePath !== undefined) {
+      this.validateAbsolutePath(baseFilePath);
+      base = baseFilePath;
+      baseDocument = await this.readJsonDocument(baseFilePath);
+    } else if (against === 'backup') {
+      const backups = await this.backups.list(filePath);
+      if (backups.length === 0) {
+        throw new Error(`No backups of ${filePath}`);
+      }
+      base = backups[backups.length - 1];
+      baseDocument = this.parseJsonDocument(filePath, await fs.readFile(base, 'utf-8'));
+    } else if (against === 'head') {
+      base = 'git HEAD';
+      baseDocument = this.parseJsonDocument(filePath, await readGitHead(filePath));
+    } else {
+      throw new Error(`Unknown diff base: ${against}. Expected one of ${DIFF_BASES.join(', ')}`);
+    }
+    
+    const document = await this.readJsonDocument(filePath);
+    const changes = structuralDiff(baseDocument.value, document.value);
+    return { base, changes };
+  }
+
+  public async findMissingKeys(referenceFilePath: string, filePaths: string[]): Promise<Record<string, KeyReport | string>> {
+    this.validateAbsolutePath(referenceFilePath);
     for (const filePath of filePaths) {
       this.validateAbsolutePath(filePath);
     }
+    const reference = (await this.readJsonDocument(referenceFilePath)).value;
+    
+    const results: Record<string, KeyReport | string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        const document = await this.readJsonDocument(filePath);
+        results[filePath] = findMissingKeys(reference, document.value);
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return results;
+  }
+
+  public async syncLocaleFiles(referenceFilePath: string, filePaths: string[], placeholder?: Placeholder, removeExtra?: boolean, expectedHashes?: Record<string, string>): Promise<Record<string, SyncReport | string>> {
+    this.validateAbsolutePath(referenceFilePath);
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    if (placeholder !== undefined && !PLACEHOLDERS.includes(placeholder)) {
+      throw new Error(`Unknown placeholder: ${placeholder}. Expected one of ${PLACEHOLDERS.join(', ')}`);
+    }
+    const reference = await this.readJsonDocument(referenceFilePath);
+    
+    const results: Record<string, SyncReport | string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        let report!: SyncReport;
+        await this.editJsonDocument(filePath, (document) => {
+          report = syncLocale(reference, document, { placeholder, removeExtra });
+        }, expectedHashes?.[filePath]);
+        results[filePath] = report;
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return results;
+  }
+
+  public async reorderKeys(referenceFilePath: string, filePaths: string[], expectedHashes?: Record<string, string>): Promise<Record<string, string>> {
+    this.validateAbsolutePath(referenceFilePath);
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const reference = await this.readJsonDocument(referenceFilePath);
+    
+    const results: Record<string, string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        let changed = false;
+        await this.editJsonDocument(filePath, (document) => {
+          // Files already in order keep their exact text
+          changed = reorderKeys(reference, document);
+        }, expectedHashes?.[filePath]);
+        results[filePath] = changed ? 'Successfully reordered' : 'Already in order';
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return results;
+  }
+
+  public async sortJsonKeys(filePaths: string[], options: SortOptions = {}, expectedHashes?: Record<string, string>): Promise<Record<string, string>> {
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    const compare = compareKeys(options);
     
     const results: Record<string, string> = {};
     
     for (const filePath of filePaths) {
       try {
-        const jsonData = await this.readJsonFile(filePath);
-        this.deleteValueAtPath(jsonData, path);
-        await this.writeJsonFile(filePath, jsonData);
-        results[filePath] = 'Successfully deleted';
+        let changed = false;
+        await this.editJsonDocument(filePath, (document) => {
+          // Files already sorted keep their exact text
+          changed = sortKeys(document, options, compare);
+        }, expectedHashes?.[filePath]);
+        results[filePath] = changed ? 'Successfully sorted' : 'Already sorted';
+      } catch (error) {
+        results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    
+    return results;
+  }
+
+  public async checkPlaceholders(referenceFilePath: string, filePaths: string[], locales?: Record<string, string>): Promise<Record<string, Record<string, PlaceholderReport> | string>> {
+    this.validateAbsolutePath(referenceFilePath);
+    for (const filePath of filePaths) {
+      this.validateAbsolutePath(filePath);
+    }
+    for (const locale of Object.values(locales ?? {})) {
+      if (!isKnownLocale(locale)) {
+        throw new Error(`Unknown locale: ${locale}`);
+      }
+    }
+    const reference = (await this.readJsonDocument(referenceFilePath)).value;
+    
+    const results: Record<string, Record<string, PlaceholderReport> | string> = {};
+    
+    for (const filePath of filePaths) {
+      try {
+        const document = await this.readJsonDocument(filePath);
+        results[filePath] = checkPlaceholders(reference, document.value, locales?.[filePath] ?? localeOfFile(filePath));
       } catch (error) {
         results[filePath] = `Error: ${error instanceof Error ? error.message : String(error)}`;
       }
@@ -279,4 +764,4 @@ export class JsonEditorMCPServerTestable {
     
     return results;
   }
-}
\ No newline at end of file
+}
@@ -129,7 +129,7 @@ describe('Absolute Path Validation', () => {
       const filePath = await createTestFile('delete-test.json', testData);
       
       const result = await server.deleteMultipleJsonValues([filePath], 'key');
-      expect(result[filePath]).toBe('Successfully deleted');
+      expect(result[filePath]).toMatch(/^Successfully deleted\. Backup saved to /);
       
       const content = await fs.readFile(filePath, 'utf-8');
       expect(JSON.parse(content)).toEqual({ "other": "keep" });
@@ -0,0 +1,82 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { writeFileAtomic } from '../src/atomic-write';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Atomic Writes', () => {
+  const testDir = path.join(__dirname, 'temp', 'atomic');
+
+  beforeEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should create new files and replace existing ones', async () => {
+      const filePath = path.join(testDir, 'replace.json');
+
+      await writeFileAtomic(filePath, '{"a": 1}');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{"a": 1}');
+
+      await writeFileAtomic(filePath, '{"a": 2}');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{"a": 2}');
+    });
+
+    it('should leave no temporary files behind', async () => {
+      const filePath = path.join(testDir, 'clean.json');
+
+      await writeFileAtomic(filePath, '{}');
+      await writeFileAtomic(filePath, '{"b": 1}');
+
+      expect(await fs.readdir(testDir)).toEqual(['clean.json']);
+    });
+
+    it('should keep the file mode', async () => {
+      const filePath = path.join(testDir, 'mode.json');
+      await fs.writeFile(filePath, '{}');
+      await fs.chmod(filePath, 0o640);
+
+      await writeFileAtomic(filePath, '{"a": 1}');
+
+      expect((await fs.stat(filePath)).mode & 0o777).toBe(0o640);
+    });
+
+    it('should replace the target of a symbolic link, not the link', async () => {
+      const target = path.join(testDir, 'target.json');
+      const link = path.join(testDir, 'link.json');
+      await fs.writeFile(target, '{}');
+      await fs.symlink(target, link);
+
+      await writeFileAtomic(link, '{"a": 1}');
+
+      expect((await fs.lstat(link)).isSymbolicLink()).toBe(true);
+      expect(await fs.readFile(target, 'utf-8')).toBe('{"a": 1}');
+    });
+
+    it('should remove the temporary file and keep the original when the rename fails', async () => {
+      const directoryPath = path.join(testDir, 'occupied');
+      await fs.mkdir(directoryPath);
+
+      await expect(writeFileAtomic(directoryPath, '{}')).rejects.toThrow();
+
+      expect(await fs.readdir(testDir)).toEqual(['occupied']);
+      expect((await fs.stat(directoryPath)).isDirectory()).toBe(true);
+    });
+  });
+
+  describe('tool methods', () => {
+    it('should write documents atomically', async () => {
+      const server = new JsonEditorMCPServerTestable();
+      const filePath = path.join(testDir, 'tool.json');
+      await fs.writeFile(filePath, '{\n  "a": 1\n}');
+      await fs.chmod(filePath, 0o600);
+
+      await server.writeMultipleJsonValues([filePath], 'b', 2);
+      await server.mergeDuplicateKeys(filePath);
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{\n  "a": 1,\n  "b": 2\n}');
+      expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+      expect(await fs.readdir(testDir)).toEqual(['.json-editor-mcp', 'tool.json']);
+    });
+  });
+});
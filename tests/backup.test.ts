@@ -0,0 +1,114 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { Backups, DEFAULT_BACKUP_DIRECTORY, backupOptionsFromEnv } from '../src/backup';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Backups', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp', 'backups');
+  const filePath = path.join(testDir, 'en.json');
+  const original = '{\n  "a": 1,\n  "a": 2,\n  "b": 3\n}\n';
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(filePath, original);
+  });
+
+  it('should back up the file before merging duplicate keys', async () => {
+    const backupPath = await server.mergeDuplicateKeys(filePath) as string;
+
+    expect(backupPath).toMatch(/\.json-editor-mcp[\\/]backups[\\/]en\.json\.\d{4}-\d{2}-\d{2}T[\d-]+Z\.bak$/);
+    expect(await fs.readFile(backupPath, 'utf-8')).toBe(original);
+  });
+
+  it('should take no backup when there are no duplicate keys to merge', async () => {
+    await fs.writeFile(filePath, '{\n  "a": 1\n}\n');
+
+    expect(await server.mergeDuplicateKeys(filePath)).toBeUndefined();
+    expect(await new Backups().list(filePath)).toEqual([]);
+  });
+
+  it('should back up each file before deleting and report where', async () => {
+    const result = await server.deleteMultipleJsonValues([filePath], 'b');
+
+    const [backupPath] = await new Backups().list(filePath);
+    expect(result[filePath]).toBe(`Successfully deleted. Backup saved to ${backupPath}`);
+    expect(await fs.readFile(backupPath, 'utf-8')).toBe(original);
+  });
+
+  it('should not back up files a delete leaves unchanged', async () => {
+    const result = await server.deleteMultipleJsonValues([filePath], 'missing');
+
+    expect(result[filePath]).toContain('Error:');
+    expect(await new Backups().list(filePath)).toEqual([]);
+  });
+
+  it('should keep only the configured number of backups', async () => {
+    server = new JsonEditorMCPServerTestable({}, {}, { count: 2 });
+    const backups: unknown[] = [];
+    for (let i = 0; i < 3; i++) {
+      await fs.writeFile(filePath, original);
+      backups.push(await server.mergeDuplicateKeys(filePath));
+    }
+
+    expect(await new Backups().list(filePath)).toEqual(backups.slice(1));
+  });
+
+  it('should take no backups with a count of 0', async () => {
+    server = new JsonEditorMCPServerTestable({}, {}, { count: 0 });
+
+    expect(await server.mergeDuplicateKeys(filePath)).toBeUndefined();
+    expect((await server.deleteMultipleJsonValues([filePath], 'b'))[filePath]).toBe('Successfully deleted');
+  });
+
+  describe('directories', () => {
+    it('should resolve a relative directory against the file', () => {
+      expect(new Backups({ directory: 'backups' }).backupDirectory(filePath)).toBe(path.join(testDir, 'backups'));
+    });
+
+    it('should recreate the file\'s path inside an absolute directory', async () => {
+      const shared = path.join(testDir, 'shared');
+      server = new JsonEditorMCPServerTestable({}, {}, { directory: shared });
+
+      const backupPath = await server.mergeDuplicateKeys(filePath) as string;
+
+      const root = path.parse(testDir).root;
+      expect(path.dirname(backupPath)).toBe(path.join(shared, testDir.slice(root.length)));
+    });
+
+    it('should not mix up backups of files whose names share a prefix', async () => {
+      const backups = new Backups();
+      await backups.create(`${filePath}.old`, '{}');
+      await backups.create(filePath, '{}');
+
+      expect(await backups.list(filePath)).toHaveLength(1);
+    });
+  });
+
+  describe('options', () => {
+    it('should use the defaults for options that are undefined', async () => {
+      const backups = new Backups({ directory: undefined, count: undefined });
+
+      expect(backups.backupDirectory(filePath)).toBe(path.join(testDir, DEFAULT_BACKUP_DIRECTORY));
+      for (let i = 0; i < 6; i++) {
+        await backups.create(filePath, `{"i": ${i}}`);
+      }
+      expect(await backups.list(filePath)).toHaveLength(5);
+    });
+
+    it('should read the options from the environment', () => {
+      expect(backupOptionsFromEnv({ JSON_EDITOR_MCP_BACKUP_DIR: '/var/backups', JSON_EDITOR_MCP_BACKUP_COUNT: '2' })).toEqual({ directory: '/var/backups', count: 2 });
+      expect(backupOptionsFromEnv({ JSON_EDITOR_MCP_BACKUP_DIR: '', JSON_EDITOR_MCP_BACKUP_COUNT: 'many' })).toEqual({ directory: undefined, count: undefined });
+    });
+
+    it('should back up with the defaults when no variables are set', async () => {
+      server = new JsonEditorMCPServerTestable({}, {}, backupOptionsFromEnv({}));
+
+      const backupPath = await server.mergeDuplicateKeys(filePath) as string;
+
+      expect(path.dirname(backupPath)).toBe(path.join(testDir, DEFAULT_BACKUP_DIRECTORY));
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Batch Writes', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp');
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  it('should write every entry to the file', async () => {
+    const filePath = path.join(testDir, 'batch-write.json');
+    await fs.writeFile(filePath, '{\n  "common": {\n    "welcome": "Welcome"\n  }\n}\n');
+
+    await server.writeJsonValueEntries(filePath, [
+      { path: 'pages.about.title', value: 'About' },
+      { path: 'pages.about.body', value: 'Who we are' },
+      { pointer: '/errors/not.found', value: 'Missing' },
+      { path: 'common.welcome', value: 'Hello' },
+    ]);
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(
+      '{\n  "common": {\n    "welcome": "Hello"\n  },\n' +
+      '  "pages": {\n    "about": {\n      "title": "About",\n      "body": "Who we are"\n    }\n  },\n' +
+      '  "errors": {\n    "not.found": "Missing"\n  }\n}\n'
+    );
+  });
+
+  it('should read and write the file only once', async () => {
+    const filePath = path.join(testDir, 'batch-write-once.json');
+    await fs.writeFile(filePath, '{}');
+    const readSpy = jest.spyOn(server, 'readJsonDocument');
+    const writeSpy = jest.spyOn(server, 'writeJsonDocument');
+
+    await server.writeJsonValueEntries(filePath, [
+      { path: 'a', value: 1 },
+      { path: 'b', value: 2 },
+      { path: 'c', value: 3 },
+    ]);
+
+    expect(readSpy).toHaveBeenCalledTimes(1);
+    expect(writeSpy).toHaveBeenCalledTimes(1);
+    expect(await readTestFile(filePath)).toEqual({ a: 1, b: 2, c: 3 });
+  });
+
+  it('should apply entries in order with their own modes and parse string values', async () => {
+    const filePath = path.join(testDir, 'batch-write-modes.json');
+    await fs.writeFile(filePath, JSON.stringify({ config: { theme: 'dark', lang: 'en' } }));
+
+    await server.writeJsonValueEntries(filePath, [
+      { path: 'config', value: { theme: 'light' }, mode: 'replace' },
+      { path: 'config', value: "{'debug': True}" },
+      { path: 'config.theme', value: 'blue', mode: 'updateOnly' },
+    ]);
+
+    expect(await readTestFile(filePath)).toEqual({ config: { theme: 'blue', debug: true } });
+  });
+
+  it('should leave the file unchanged when any entry fails', async () => {
+    const filePath = path.join(testDir, 'batch-write-atomic.json');
+    const original = '{\n  "title": "Old"\n}';
+    await fs.writeFile(filePath, original);
+
+    await expect(server.writeJsonValueEntries(filePath, [
+      { path: 'subtitle', value: 'New' },
+      { path: 'title', value: 'New', mode: 'createOnly' },
+    ])).rejects.toThrow('Entry 1 failed, no values were written: Path title already exists');
+    await expect(server.writeJsonValueEntries(filePath, [{ path: 'items[', value: 1 }])).rejects.toThrow('Entry 0 failed');
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(original);
+  });
+});
+
+describe('Per-File Writes', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp');
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  it('should write each file its own value at the same path', async () => {
+    const en = path.join(testDir, 'per-file-en.json');
+    const es = path.join(testDir, 'per-file-es.json');
+    const de = path.join(testDir, 'per-file-de.json');
+    await fs.writeFile(en, JSON.stringify({ common: { welcome: 'Welcome' } }));
+    await fs.writeFile(es, JSON.stringify({ common: { welcome: 'Bienvenido' } }));
+    await fs.rm(de, { force: true });
+
+    const result = await server.writeJsonValuesPerFile('pages.about.title', {
+      [en]: 'About',
+      [es]: 'Acerca de',
+      [de]: 'Über uns',
+    });
+
+    expect(result).toEqual({ [en]: 'Successfully wrote', [es]: 'Successfully wrote', [de]: 'Successfully wrote' });
+    expect(await readTestFile(en)).toEqual({ common: { welcome: 'Welcome' }, pages: { about: { title: 'About' } } });
+    expect(await readTestFile(es)).toEqual({ common: { welcome: 'Bienvenido' }, pages: { about: { title: 'Acerca de' } } });
+    expect(await readTestFile(de)).toEqual({ pages: { about: { title: 'Über uns' } } });
+  });
+
+  it('should report per-file failures without affecting the other files', async () => {
+    const en = path.join(testDir, 'per-file-fail-en.json');
+    const es = path.join(testDir, 'per-file-fail-es.json');
+    await fs.writeFile(en, JSON.stringify({ title: 'Title' }));
+    await fs.writeFile(es, '{"title": ');
+
+    const result = await server.writeJsonValuesPerFile(undefined, { [en]: 'About', [es]: 'Acerca de' }, '/subtitle', 'createOnly');
+
+    expect(result[en]).toBe('Successfully wrote');
+    expect(result[es]).toContain('Error:');
+    expect(await readTestFile(en)).toEqual({ title: 'Title', subtitle: 'About' });
+  });
+
+  it('should reject relative file paths and invalid paths before writing anything', async () => {
+    const filePath = path.join(testDir, 'per-file-untouched.json');
+    await fs.writeFile(filePath, '{}');
+
+    await expect(server.writeJsonValuesPerFile('a', { [filePath]: 1, 'relative.json': 2 })).rejects.toThrow('Path must be absolute');
+    await expect(server.writeJsonValuesPerFile('a[', { [filePath]: 1 })).rejects.toThrow('Invalid path "a["');
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('{}');
+  });
+});
@@ -309,4 +309,32 @@ describe('Concurrency and Race Conditions', () => {
       expect(Object.keys(sharedObject.thread2 || {})).toHaveLength(100);
     });
   });
+
+  describe('Concurrent Edits of the Same File', () => {
+    it('should not lose updates when writes to one file overlap', async () => {
+      const filePath = await createTestFile('concurrent-writes.json', {});
+
+      await Promise.all(Array(20).fill(0).map((_, i) =>
+        server.writeMultipleJsonValues([filePath], `key${i}`, `value${i}`)
+      ));
+
+      const fileContent = await readTestFile(filePath);
+      expect(Object.keys(fileContent)).toHaveLength(20);
+      expect(fileContent.key19).toBe('value19');
+    });
+
+    it('should not lose updates when different tools edit one file at once', async () => {
+      const filePath = await createTestFile('concurrent-tools.json', { stale: true });
+
+      await Promise.all([
+        server.writeMultipleJsonValues([filePath], 'a', 1),
+        server.mergeJson(filePath, 'b', { c: 2 }),
+        server.applyJsonPatch(filePath, [{ op: 'add', path: '/d', value: 3 }]),
+        server.deleteMultipleJsonValues([filePath], 'stale'),
+        server.writeJsonValueEntries(filePath, [{ path: 'e', value: 4 }]),
+      ]);
+
+      expect(await readTestFile(filePath)).toEqual({ a: 1, b: { c: 2 }, d: 3, e: 4 });
+    });
+  });
 });
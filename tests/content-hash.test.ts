@@ -0,0 +1,105 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { assertContentHash, contentHash } from '../src/hash';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Content Hashes', () => {
+  describe('contentHash', () => {
+    it('should be stable and tell different content apart', () => {
+      expect(contentHash('{"a": 1}')).toBe(contentHash('{"a": 1}'));
+      expect(contentHash('{"a": 1}')).not.toBe(contentHash('{"a":1}'));
+      expect(contentHash('{}')).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should only assert when a hash is expected', () => {
+      expect(() => assertContentHash('/x.json', '{}')).not.toThrow();
+      expect(() => assertContentHash('/x.json', '{}', contentHash('{}'))).not.toThrow();
+      expect(() => assertContentHash('/x.json', '{}', 'stale')).toThrow(
+        `File /x.json has changed since it was read (expected hash stale, found ${contentHash('{}')})`
+      );
+    });
+  });
+
+  describe('tool methods', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    const readHash = async (filePath: string): Promise<string> =>
+      (await server.readMultipleJsonValues([filePath], undefined, '', true))[filePath].hash;
+
+    it('should return values with hashes when asked', async () => {
+      const filePath = path.join(testDir, 'hash-read.json');
+      const content = '{\n  "common": {\n    "welcome": "Welcome"\n  }\n}';
+      await fs.writeFile(filePath, content);
+
+      const result = await server.readMultipleJsonValues([filePath], 'common.welcome', undefined, true);
+      const query = await server.queryJson([filePath], '$.common.*', true);
+
+      expect(result[filePath]).toEqual({ value: 'Welcome', hash: contentHash(content) });
+      expect(query[filePath]).toEqual({ matches: [{ path: 'common.welcome', value: 'Welcome' }], hash: contentHash(content) });
+      expect((await server.readMultipleJsonValues([filePath], 'common.welcome'))[filePath]).toBe('Welcome');
+    });
+
+    it('should write when the file still has the expected hash', async () => {
+      const filePath = path.join(testDir, 'hash-write.json');
+      await fs.writeFile(filePath, '{"a": 1}');
+      const hash = await readHash(filePath);
+
+      const result = await server.writeMultipleJsonValues([filePath], 'b', 2, undefined, undefined, { [filePath]: hash });
+
+      expect(result[filePath]).toBe('Successfully wrote');
+      expect(await readTestFile(filePath)).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should reject edits after the file changed since it was read', async () => {
+      const filePath = path.join(testDir, 'hash-stale.json');
+      await fs.writeFile(filePath, '{"a": 1}');
+      const hash = await readHash(filePath);
+      // Someone edits the file by hand in the meantime
+      await fs.writeFile(filePath, '{"a": 1, "human": true}');
+
+      const write = await server.writeMultipleJsonValues([filePath], 'b', 2, undefined, undefined, { [filePath]: hash });
+      const remove = await server.deleteMultipleJsonValues([filePath], 'a', undefined, { [filePath]: hash });
+      const perFile = await server.writeJsonValuesPerFile('b', { [filePath]: 2 }, undefined, undefined, { [filePath]: hash });
+      await expect(server.writeJsonValueEntries(filePath, [{ path: 'b', value: 2 }], hash)).rejects.toThrow('has changed since it was read');
+      await expect(server.mergeJson(filePath, 'b', 2, undefined, hash)).rejects.toThrow('has changed since it was read');
+      await expect(server.applyJsonPatch(filePath, [{ op: 'add', path: '/b', value: 2 }], hash)).rejects.toThrow('has changed since it was read');
+      await expect(server.mergeDuplicateKeys(filePath, hash)).rejects.toThrow('has changed since it was read');
+
+      expect(write[filePath]).toContain('has changed since it was read');
+      expect(remove[filePath]).toContain('has changed since it was read');
+      expect(perFile[filePath]).toContain('has changed since it was read');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{"a": 1, "human": true}');
+    });
+
+    it('should check each file against its own hash', async () => {
+      const en = path.join(testDir, 'hash-en.json');
+      const es = path.join(testDir, 'hash-es.json');
+      await fs.writeFile(en, '{"a": 1}');
+      await fs.writeFile(es, '{"a": 2}');
+      const hashes = { [en]: await readHash(en), [es]: await readHash(es) };
+      await fs.writeFile(es, '{"a": 3}');
+
+      const result = await server.deleteMultipleJsonValues([en, es], 'a', undefined, hashes);
+
+      expect(result[en]).toMatch(/^Successfully deleted\. Backup saved to /);
+      expect(result[es]).toContain('has changed since it was read');
+    });
+
+    it('should let chained edits use the hash of the previous result', async () => {
+      const filePath = path.join(testDir, 'hash-chain.json');
+      await fs.writeFile(filePath, '{"a": 1}');
+
+      await server.mergeJson(filePath, 'b', 2, undefined, await readHash(filePath));
+      await server.applyJsonPatch(filePath, [{ op: 'remove', path: '/a' }], await readHash(filePath));
+
+      expect(await readTestFile(filePath)).toEqual({ b: 2 });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('JSON Diff', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp', 'diff-json');
+  const en = path.join(testDir, 'en.json');
+  const es = path.join(testDir, 'es.json');
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(en, JSON.stringify({ nav: { home: 'Home', about: 'About' }, errors: { 'not.found': 'Not found' } }, null, 2));
+    await fs.writeFile(es, JSON.stringify({ nav: { home: 'Inicio', blog: 'Blog' }, errors: {} }, null, 2));
+  });
+
+  it('should compare two files', async () => {
+    const result = await server.diffJson(es, en);
+
+    expect(result).toEqual({
+      base: en,
+      changes: [
+        { type: 'changed', path: 'nav.home', oldValue: 'Home', newValue: 'Inicio' },
+        { type: 'removed', path: 'nav.about', oldValue: 'About' },
+        { type: 'added', path: 'nav.blog', newValue: 'Blog' },
+        { type: 'removed', path: 'errors["not.found"]', oldValue: 'Not found' },
+      ],
+    });
+  });
+
+  it('should report paths that read back with the same value', async () => {
+    const { changes } = await server.diffJson(es, en);
+    const removed = changes.find((change) => change.type === 'removed' && change.path.startsWith('errors'))!;
+
+    expect(server.getValueAtPath(JSON.parse(await fs.readFile(en, 'utf-8')), removed.path)).toBe('Not found');
+  });
+
+  it('should compare a file with its last backup', async () => {
+    await server.deleteMultipleJsonValues([en], 'nav.about');
+    await server.deleteMultipleJsonValues([en], 'nav.home');
+
+    const result = await server.diffJson(en, undefined, 'backup');
+
+    expect(result.base).toMatch(/\.bak$/);
+    expect(result.changes).toEqual([{ type: 'removed', path: 'nav.home', oldValue: 'Home' }]);
+  });
+
+  it('should fail when there is no backup', async () => {
+    await expect(server.diffJson(en, undefined, 'backup')).rejects.toThrow(`No backups of ${en}`);
+  });
+
+  it('should compare a file with its version in git HEAD', async () => {
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: testDir, stdio: 'pipe' });
+    git('init', '-q');
+    git('add', 'en.json');
+    git('commit', '-q', '-m', 'Add en.json');
+    await server.writeMultipleJsonValues([en], 'nav.blog', 'Blog');
+
+    const result = await server.diffJson(en, undefined, 'head');
+
+    expect(result).toEqual({ base: 'git HEAD', changes: [{ type: 'added', path: 'nav.blog', newValue: 'Blog' }] });
+    await expect(server.diffJson(es, undefined, 'head')).rejects.toThrow(`Cannot read ${es} from git HEAD`);
+  });
+
+  it('should require exactly one thing to compare with', async () => {
+    await expect(server.diffJson(en)).rejects.toThrow('Provide either baseFilePath or against');
+    await expect(server.diffJson(en, es, 'head')).rejects.toThrow('Provide either baseFilePath or against');
+    await expect(server.diffJson(en, 'es.json')).rejects.toThrow('Path must be absolute');
+    await expect(server.diffJson(en, undefined, 'yesterday' as any)).rejects.toThrow('Unknown diff base: yesterday');
+  });
+});
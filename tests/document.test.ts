@@ -0,0 +1,235 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { JsonDocument } from '../src/document';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Concrete Syntax Tree Editing', () => {
+  const edit = (text: string, apply: (document: JsonDocument) => void, allowComments = false): string => {
+    const document = new JsonDocument(text, { allowComments });
+    apply(document);
+    return document.text;
+  };
+
+  describe('getValueAtPath', () => {
+    it('should read nested values and array items', () => {
+      const document = new JsonDocument('{"a": {"b": [10, {"c": true}]}}');
+
+      expect(document.getValueAtPath(['a', 'b', '1', 'c'])).toBe(true);
+      expect(document.getValueAtPath(['a', 'b'])).toEqual([10, { c: true }]);
+    });
+
+    it('should use the last occurrence of a duplicated key', () => {
+      const document = new JsonDocument('{"a": 1, "a": 2}');
+
+      expect(document.getValueAtPath(['a'])).toBe(2);
+    });
+
+    it('should report missing keys and non-object parents', () => {
+      const document = new JsonDocument('{"key": "value"}');
+
+      expect(() => document.getValueAtPath(['missing'])).toThrow('Path missing not found: missing does not exist');
+      expect(() => document.getValueAtPath(['key', 'nested'])).toThrow('Path key.nested not found: nested is not an object');
+    });
+  });
+
+  describe('setValueAtPath', () => {
+    it('should replace only the value span', () => {
+      const text = '{\n  "a"  :   "old" ,\n    "b":1\n}';
+
+      expect(edit(text, (d) => d.setValueAtPath(['a'], 'new'))).toBe('{\n  "a"  :   "new" ,\n    "b":1\n}');
+    });
+
+    it('should keep integer-like keys in their original order', () => {
+      const text = '{\n  "b": 1,\n  "404": "Not found"\n}';
+
+      expect(edit(text, (d) => d.setValueAtPath(['b'], 2))).toBe('{\n  "b": 2,\n  "404": "Not found"\n}');
+    });
+
+    it('should append new properties after the last one with the same indentation', () => {
+      const text = '{\n    "common": {\n        "a": "A"\n    }\n}\n';
+
+      expect(edit(text, (d) => d.setValueAtPath(['common', 'b'], 'B')))
+        .toBe('{\n    "common": {\n        "a": "A",\n        "b": "B"\n    }\n}\n');
+    });
+
+    it('should create missing objects indented relative to their parent', () => {
+      const text = '{\n\t"a": 1\n}';
+
+      expect(edit(text, (d) => d.setValueAtPath(['pages', 'about', 'title'], 'About')))
+        .toBe('{\n\t"a": 1,\n\t"pages": {\n\t\t"about": {\n\t\t\t"title": "About"\n\t\t}\n\t}\n}');
+    });
+
+    it('should fill empty objects', () => {
+      expect(edit('{}', (d) => d.setValueAtPath(['a'], 1))).toBe('{\n  "a": 1\n}');
+      expect(edit('{\n  "a": {}\n}', (d) => d.setValueAtPath(['a', 'b'], 1))).toBe('{\n  "a": {\n    "b": 1\n  }\n}');
+    });
+
+    it('should keep CRLF line endings', () => {
+      const text = '{\r\n  "a": 1\r\n}\r\n';
+
+      expect(edit(text, (d) => d.setValueAtPath(['b'], { c: 2 }))).toBe('{\r\n  "a": 1,\r\n  "b": {\r\n    "c": 2\r\n  }\r\n}\r\n');
+    });
+
+    it('should keep single-line containers on one line', () => {
+      expect(edit('{"a":1}', (d) => d.setValueAtPath(['b'], { c: 2 }))).toBe('{"a":1,"b":{"c":2}}');
+      expect(edit('{\n  "tags": ["x", "y"]\n}', (d) => d.setValueAtPath(['tags', '2'], 'z')))
+        .toBe('{\n  "tags": ["x", "y", "z"]\n}');
+    });
+
+    it('should space the comma after a single member like its colon', () => {
+      expect(edit('{\n  "b": {"c": 2}\n}', (d) => d.setValueAtPath(['b', 'd'], 'x'))).toBe('{\n  "b": {"c": 2, "d": "x"}\n}');
+      expect(edit('{"b":{"c":2}}', (d) => d.setValueAtPath(['b', 'd'], 'x'))).toBe('{"b":{"c":2,"d":"x"}}');
+      expect(edit('{\n  "tags": ["x"]\n}', (d) => d.setValueAtPath(['tags', '1'], 'y'))).toBe('{\n  "tags": ["x", "y"]\n}');
+    });
+
+    it('should replace primitives that are in the way', () => {
+      expect(edit('{\n  "a": "text"\n}', (d) => d.setValueAtPath(['a', 'b'], 1))).toBe('{\n  "a": {\n    "b": 1\n  }\n}');
+    });
+
+    it('should replace array items and reject out-of-range indices', () => {
+      const text = '[\n  1,\n  2\n]';
+
+      expect(edit(text, (d) => d.setValueAtPath(['1'], 3))).toBe('[\n  1,\n  3\n]');
+      expect(() => edit(text, (d) => d.setValueAtPath(['5'], 3))).toThrow('not a valid index');
+    });
+
+    it('should keep a trailing line comment with the member it annotates', () => {
+      const text = '{\n  "a": 1 // first\n}';
+
+      expect(edit(text, (d) => d.setValueAtPath(['b'], 2), true)).toBe('{\n  "a": 1, // first\n  "b": 2\n}');
+    });
+
+    it('should leave comments and odd spacing elsewhere untouched', () => {
+      const text = '// settings\n{\n  /* block */ "a":   1,\n  "b": {   "c": 2 }   // inline\n}\n';
+
+      expect(edit(text, (d) => d.setValueAtPath(['b', 'c'], 3), true))
+        .toBe('// settings\n{\n  /* block */ "a":   1,\n  "b": {   "c": 3 }   // inline\n}\n');
+    });
+  });
+
+  describe('insertValueAtPath', () => {
+    it('should insert items on their own line before the item at the index', () => {
+      const text = '{\n  "tags": [\n    "a",\n    "c"\n  ]\n}';
+
+      expect(edit(text, (d) => d.insertValueAtPath(['tags', '1'], 'b'))).toBe('{\n  "tags": [\n    "a",\n    "b",\n    "c"\n  ]\n}');
+      expect(edit(text, (d) => d.insertValueAtPath(['tags', '0'], { x: 1 })))
+        .toBe('{\n  "tags": [\n    {\n      "x": 1\n    },\n    "a",\n    "c"\n  ]\n}');
+    });
+
+    it('should insert into single-line arrays with their separator', () => {
+      expect(edit('[1, 3]', (d) => d.insertValueAtPath(['1'], 2))).toBe('[1, 2, 3]');
+      expect(edit('[1,3]', (d) => d.insertValueAtPath(['0'], 0))).toBe('[0,1,3]');
+      expect(edit('[ 1 ]', (d) => d.insertValueAtPath(['0'], 0))).toBe('[ 0, 1 ]');
+    });
+
+    it('should append at an index equal to the length', () => {
+      expect(edit('[1, 2]', (d) => d.insertValueAtPath(['2'], 3))).toBe('[1, 2, 3]');
+    });
+
+    it('should reject out-of-range indices and non-array parents', () => {
+      expect(() => edit('[1]', (d) => d.insertValueAtPath(['2'], 3))).toThrow('2 is not a valid index for an array of length 1');
+      expect(() => edit('{"a": 1}', (d) => d.insertValueAtPath(['b'], 3))).toThrow('cannot insert into non-array');
+    });
+  });
+
+  describe('deleteValueAtPath', () => {
+    it('should remove a middle property with its line', () => {
+      const text = '{\n  "a": 1,\n  "b": 2,\n  "c": 3\n}';
+
+      expect(edit(text, (d) => d.deleteValueAtPath(['b']))).toBe('{\n  "a": 1,\n  "c": 3\n}');
+    });
+
+    it('should remove the last property and the comma before it', () => {
+      const text = '{\n  "a": 1,\n  "b": {\n    "x": true\n  }\n}\n';
+
+      expect(edit(text, (d) => d.deleteValueAtPath(['b']))).toBe('{\n  "a": 1\n}\n');
+    });
+
+    it('should collapse a container whose only member is removed', () => {
+      expect(edit('{\n  "a": {\n    "b": 1\n  }\n}', (d) => d.deleteValueAtPath(['a', 'b']))).toBe('{\n  "a": {}\n}');
+    });
+
+    it('should remove members of single-line containers', () => {
+      expect(edit('{"a": 1, "b": 2, "c": 3}', (d) => d.deleteValueAtPath(['b']))).toBe('{"a": 1, "c": 3}');
+      expect(edit('{"a": 1, "b": 2}', (d) => d.deleteValueAtPath(['b']))).toBe('{"a": 1}');
+    });
+
+    it('should remove array items instead of leaving holes', () => {
+      expect(edit('[1, 2, 3]', (d) => d.deleteValueAtPath(['1']))).toBe('[1, 3]');
+    });
+
+    it('should remove every occurrence of a duplicated key', () => {
+      const document = new JsonDocument('{\n  "a": 1,\n  "b": 2,\n  "a": 3\n}');
+      document.deleteValueAtPath(['a']);
+
+      expect(document.text).toBe('{\n  "b": 2\n}');
+    });
+
+    it('should keep CRLF line endings and comments of other members', () => {
+      const text = '{\r\n  // about a\r\n  "a": 1,\r\n  "b": 2 // about b\r\n}';
+
+      expect(edit(text, (d) => d.deleteValueAtPath(['b']), true)).toBe('{\r\n  // about a\r\n  "a": 1\r\n}');
+    });
+
+    it('should report missing keys', () => {
+      expect(() => edit('{"a": {}}', (d) => d.deleteValueAtPath(['a', 'b']))).toThrow('Path a.b not found: b does not exist');
+      expect(() => edit('{"a": 1}', (d) => d.deleteValueAtPath(['a', 'b']))).toThrow('cannot delete from non-object');
+    });
+  });
+
+  describe('mergeDuplicateProperties', () => {
+    it('should keep the first occurrence with the merged value and drop the rest', () => {
+      const text = '{\n  "a": 1,\n  "b": 2,\n  "a": 3,\n  "c": 4,\n  "b": 5,\n  "a": 6\n}\n';
+
+      expect(edit(text, (d) => d.mergeDuplicateProperties([{ keys: [], key: 'a', value: 6 }, { keys: [], key: 'b', value: 5 }])))
+        .toBe('{\n  "a": 6,\n  "b": 5,\n  "c": 4\n}\n');
+    });
+
+    it('should merge in single-line and nested objects', () => {
+      expect(edit('{"x": {"a": 1, "a": 2, "b": 3}}', (d) => d.mergeDuplicateProperties([{ keys: ['x'], key: 'a', value: 2 }])))
+        .toBe('{"x": {"a": 2, "b": 3}}');
+      expect(edit('{"a": 1,"b": 2,"a": 3}', (d) => d.mergeDuplicateProperties([{ keys: [], key: 'a', value: 3 }])))
+        .toBe('{"a": 3,"b": 2}');
+    });
+  });
+
+  describe('tool methods', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should leave untouched regions of a file byte-identical', async () => {
+      const filePath = path.join(testDir, 'cst-untouched.json');
+      const original = '{\n  "z":   1,\n  "10": [1,2,  3],\n  "common": {\n    "welcome": "Welcome"\n  }\n}\n';
+      await fs.writeFile(filePath, original);
+
+      await server.writeMultipleJsonValues([filePath], 'common.welcome', 'Hi');
+      await server.deleteMultipleJsonValues([filePath], 'z');
+
+      expect(await fs.readFile(filePath, 'utf-8'))
+        .toBe('{\n  "10": [1,2,  3],\n  "common": {\n    "welcome": "Hi"\n  }\n}\n');
+    });
+
+    it('should edit JSONC files and keep their comments', async () => {
+      const filePath = path.join(testDir, 'cst-settings.jsonc');
+      await fs.writeFile(filePath, '{\n  // Editor font\n  "fontSize": 12\n}\n');
+
+      await server.writeMultipleJsonValues([filePath], 'fontSize', 14);
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{\n  // Editor font\n  "fontSize": 14\n}\n');
+      expect((await server.readMultipleJsonValues([filePath], 'fontSize'))[filePath]).toBe(14);
+    });
+
+    it('should reject comments in plain JSON files', async () => {
+      const filePath = path.join(testDir, 'cst-comments.json');
+      await fs.writeFile(filePath, '{\n  // comment\n  "a": 1\n}');
+
+      const result = await server.readMultipleJsonValues([filePath], 'a');
+      expect(result[filePath]).toContain('Failed to read JSON file');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { EditPreview, structuralDiff, unifiedDiff } from '../src/diff';
+import { Backups } from '../src/backup';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Dry Runs', () => {
+  describe('unifiedDiff', () => {
+    it('should print hunks with three lines of context', () => {
+      const oldText = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', ''].join('\n');
+      const newText = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h', ''].join('\n');
+
+      expect(unifiedDiff(oldText, newText, 'en.json')).toBe([
+        '--- en.json',
+        '+++ en.json',
+        '@@ -2,7 +2,7 @@',
+        ' b',
+        ' c',
+        ' d',
+        '-e',
+        '+E',
+        ' f',
+        ' g',
+        ' h',
+        '',
+      ].join('\n'));
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const newLines = [...oldLines];
+      newLines[1] = 'changed 1';
+      newLines[18] = 'changed 18';
+
+      const diff = unifiedDiff(oldLines.join('\n') + '\n', newLines.join('\n') + '\n', 'en.json');
+
+      expect(diff.split('\n').filter((line) => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    });
+
+    it('should describe insertions and deletions', () => {
+      expect(unifiedDiff('a\nb\n', 'a\nx\nb\n', 'f')).toBe('--- f\n+++ f\n@@ -1,2 +1,3 @@\n a\n+x\n b\n');
+      expect(unifiedDiff('a\nb\n', 'b\n', 'f')).toBe('--- f\n+++ f\n@@ -1,2 +1 @@\n-a\n b\n');
+      expect(unifiedDiff('', 'a\n', 'f')).toBe('--- f\n+++ f\n@@ -0,0 +1 @@\n+a\n');
+    });
+
+    it('should mark a missing final newline', () => {
+      expect(unifiedDiff('{}', '{}\n', 'f')).toBe('--- f\n+++ f\n@@ -1 +1 @@\n-{}\n\\ No newline at end of file\n+{}\n');
+    });
+
+    it('should diff texts with thousands of changed lines', () => {
+      const lines = (prefix: string) => Array.from({ length: 3000 }, (_, i) => `${prefix}${i}`).join('\n') + '\n';
+
+      const diff = unifiedDiff(lines('old'), lines('new'), 'big.json');
+      const body = diff.split('\n').slice(3, -1);
+
+      expect(diff.split('\n')[2]).toBe('@@ -1,3000 +1,3000 @@');
+      expect(body.filter((line) => line.startsWith('-'))).toHaveLength(3000);
+      expect(body.filter((line) => line.startsWith('+'))).toHaveLength(3000);
+      expect(body.indexOf('+new0')).toBe(3000);
+    });
+
+    it('should return an empty string for equal texts', () => {
+      expect(unifiedDiff('{\n}\n', '{\n}\n', 'f')).toBe('');
+    });
+  });
+
+  describe('structuralDiff', () => {
+    it('should list added, removed and changed paths', () => {
+      const changes = structuralDiff(
+        { title: 'Home', nav: { home: 'Home', old: 'Old' }, items: [1, 2] },
+        { title: 'Start', nav: { home: 'Home', about: 'About' }, items: [1, 2, 3] }
+      );
+
+      expect(changes).toEqual([
+        { type: 'changed', path: 'title', oldValue: 'Home', newValue: 'Start' },
+        { type: 'removed', path: 'nav.old', oldValue: 'Old' },
+        { type: 'added', path: 'nav.about', newValue: 'About' },
+        { type: 'added', path: 'items.2', newValue: 3 },
+      ]);
+    });
+
+    it('should quote keys that need it', () => {
+      expect(structuralDiff({}, { 'not.found': 1 })).toEqual([{ type: 'added', path: '["not.found"]', newValue: 1 }]);
+    });
+
+    it('should report a change of type as a whole', () => {
+      expect(structuralDiff({ a: { b: 1 } }, { a: [1] })).toEqual([{ type: 'changed', path: 'a', oldValue: { b: 1 }, newValue: [1] }]);
+      expect(structuralDiff(1, 2)).toEqual([{ type: 'changed', path: '', oldValue: 1, newValue: 2 }]);
+    });
+  });
+
+  describe('tool methods', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp', 'dry-run');
+    const filePath = path.join(testDir, 'en.json');
+    const original = '{\n  "title": "Home",\n  "title": "Start",\n  "nav": {\n    "home": "Home"\n  }\n}\n';
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(filePath, original);
+    });
+
+    it('should preview a write without writing', async () => {
+      const result = await server.writeMultipleJsonValues([filePath], 'nav.about', 'About', undefined, undefined, undefined, true);
+
+      const preview = result[filePath] as EditPreview;
+      expect(preview.diff).toContain('+    "about": "About"');
+      expect(preview.changes).toEqual([{ type: 'added', path: 'nav.about', newValue: 'About' }]);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(original);
+    });
+
+    it('should preview a delete without writing or backing up', async () => {
+      const result = await server.deleteMultipleJsonValues([filePath], 'nav.home', undefined, undefined, true);
+
+      expect((result[filePath] as EditPreview).changes).toEqual([{ type: 'removed', path: 'nav.home', oldValue: 'Home' }]);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(original);
+      expect(await new Backups().list(filePath)).toEqual([]);
+    });
+
+    it('should report errors of a previewed edit', async () => {
+      const result = await server.deleteMultipleJsonValues([filePath], 'missing', undefined, undefined, true);
+
+      expect(result[filePath]).toBe('Error: Path missing not found: missing does not exist');
+    });
+
+    it('should preview merging duplicate keys', async () => {
+      const preview = await server.mergeDuplicateKeys(filePath, undefined, true) as EditPreview;
+
+      expect(preview.diff).toContain('-  "title": "Home",');
+      // The last duplicate already wins when the file is read, so the value does not change
+      expect(preview.changes).toEqual([]);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(original);
+    });
+
+    it('should check the expected hash in a dry run', async () => {
+      await expect(server.mergeDuplicateKeys(filePath, 'stale', true)).rejects.toThrow('has changed since it was read');
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import {
+  DuplicateKeyEntries,
+  JsonSyntaxError,
+  nodeToValue,
+  parseJsonWithDuplicates,
+  parseTree,
+} from '../src/parser';
+import { Backups } from '../src/backup';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Duplicate Key Preserving Parser', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp');
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  describe('parseTree', () => {
+    it('should keep duplicate properties in source order', () => {
+      const tree = parseTree('{"a": 1, "b": 2, "a": 3}');
+
+      expect(tree.type).toBe('object');
+      if (tree.type !== 'object') return;
+      expect(tree.properties.map((p) => p.key)).toEqual(['a', 'b', 'a']);
+    });
+
+    it('should record offsets and lengths of nodes', () => {
+      const text = '{ "key": [1, "two"] }';
+      const tree = parseTree(text);
+
+      if (tree.type !== 'object') throw new Error('expected object');
+      const value = tree.properties[0].value;
+      expect(text.slice(tree.offset, tree.offset + tree.length)).toBe(text);
+      expect(text.slice(value.offset, value.offset + value.length)).toBe('[1, "two"]');
+      expect(text.slice(tree.properties[0].offset, tree.properties[0].offset + tree.properties[0].length))
+        .toBe('"key": [1, "two"]');
+    });
+
+    it('should produce the same values as JSON.parse', () => {
+      const text = JSON.stringify({
+        string: 'line\nbreak é 🎉 "quoted" \\ /',
+        numbers: [0, -1, 1.5, 1e10, -2.5E-3],
+        literals: [true, false, null],
+        nested: { empty: {}, list: [] },
+      });
+
+      expect(nodeToValue(parseTree(text))).toEqual(JSON.parse(text));
+    });
+
+    it('should resolve duplicates like JSON.parse in nodeToValue', () => {
+      const text = '{"key": "value1", "key": "value2"}';
+
+      expect(nodeToValue(parseTree(text))).toEqual(JSON.parse(text));
+    });
+
+    it('should keep __proto__ as an own property', () => {
+      const value = nodeToValue(parseTree('{"__proto__": {"polluted": true}}'));
+
+      expect(Object.keys(value)).toEqual(['__proto__']);
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should ignore a leading byte order mark', () => {
+      expect(nodeToValue(parseTree('\uFEFF{"key": "value"}'))).toEqual({ key: 'value' });
+    });
+
+    it.each([
+      ['trailing comma in object', '{ "key": "value", }'],
+      ['trailing comma in array', '[1, 2, ]'],
+      ['unclosed object', '{ "key": "value"'],
+      ['unclosed string', '{ "key": "value }'],
+      ['invalid escape', '{ "key": "value\\x" }'],
+      ['invalid unicode escape', '{ "key": "\\uZZZZ" }'],
+      ['control character in string', '{ "key": "a\u0000b" }'],
+      ['leading zero', '{ "key": 01 }'],
+      ['single quotes', "{ 'key': 'value' }"],
+      ['comment', '{ "key": "value" } // comment'],
+      ['empty input', ''],
+      ['trailing content', '{} {}'],
+    ])('should reject %s', (_, text) => {
+      expect(() => parseTree(text)).toThrow(JsonSyntaxError);
+    });
+
+    it('should report the line and column of syntax errors', () => {
+      try {
+        parseTree('{\n  "a": 1,\n  "b": ?\n}');
+        fail('expected a syntax error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(JsonSyntaxError);
+        expect((error as JsonSyntaxError).line).toBe(3);
+        expect((error as JsonSyntaxError).column).toBe(8);
+        expect((error as JsonSyntaxError).message).toContain('line 3, column 8');
+      }
+    });
+  });
+
+  describe('parseJsonWithDuplicates', () => {
+    it('should represent objects as ordered entries', () => {
+      const result = parseJsonWithDuplicates('{"a": {"x": 1}, "a": {"y": 2}}');
+
+      expect(result).toBeInstanceOf(DuplicateKeyEntries);
+      expect(result.entries.map(([key]: [string, any]) => key)).toEqual(['a', 'a']);
+      expect(result.entries[1][1]).toBeInstanceOf(DuplicateKeyEntries);
+    });
+
+    it('should feed duplicates into deepMergeDuplicates', () => {
+      const parsed = parseJsonWithDuplicates(`{
+        "common": {
+          "someKey1": "someValue1",
+          "subKey1": { "subKey11": "subValue11", "subKey12": "subValue12" }
+        },
+        "common": {
+          "someKey1": "someValue2",
+          "someKey2": "someValue3",
+          "subKey1": { "subKey13": "subValue13" }
+        }
+      }`);
+
+      expect(server.deepMergeDuplicates(parsed)).toEqual({
+        common: {
+          someKey1: 'someValue2',
+          someKey2: 'someValue3',
+          subKey1: {
+            subKey11: 'subValue11',
+            subKey12: 'subValue12',
+            subKey13: 'subValue13',
+          },
+        },
+      });
+    });
+
+    it('should merge duplicates nested inside duplicates and arrays', () => {
+      const parsed = parseJsonWithDuplicates(`{
+        "level1": { "level2": { "a": 1 }, "level2": { "b": 2 } },
+        "level1": { "level2": { "c": 3 } },
+        "items": [{ "id": 1, "tags": { "x": true }, "tags": { "y": true } }]
+      }`);
+
+      expect(server.deepMergeDuplicates(parsed)).toEqual({
+        level1: { level2: { a: 1, b: 2, c: 3 } },
+        items: [{ id: 1, tags: { x: true, y: true } }],
+      });
+    });
+  });
+
+  describe('mergeDuplicateKeys', () => {
+    it('should merge duplicate keys present in the file text', async () => {
+      const filePath = path.join(testDir, 'file-with-duplicates.json');
+      await fs.writeFile(filePath, `{
+  "common": {
+    "welcome": "Welcome"
+  },
+  "pages": {
+    "home": "Home"
+  },
+  "common": {
+    "goodbye": "Goodbye"
+  }
+}`);
+
+      await server.mergeDuplicateKeys(filePath);
+
+      expect(await readTestFile(filePath)).toEqual({
+        common: { welcome: 'Welcome', goodbye: 'Goodbye' },
+        pages: { home: 'Home' },
+      });
+    });
+
+    it('should fail on malformed files without writing', async () => {
+      const filePath = path.join(testDir, 'malformed-duplicates.json');
+      const content = '{ "common": { "a": 1 }, "common": { "b": 2 ';
+      await fs.writeFile(filePath, content);
+
+      await expect(server.mergeDuplicateKeys(filePath)).rejects.toThrow('Failed to read JSON file');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(content);
+    });
+
+    it('should keep comments in JSONC files', async () => {
+      const filePath = path.join(testDir, 'duplicates.jsonc');
+      await fs.writeFile(filePath, '{\n  // Shared strings\n  "common": { "a": 1 },\n  "common": { "b": 2 }\n}\n');
+
+      await server.mergeDuplicateKeys(filePath);
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{\n  // Shared strings\n  "common": {\n    "a": 1,\n    "b": 2\n  }\n}\n');
+    });
+
+    it('should rewrite only the duplicated properties', async () => {
+      const filePath = path.join(testDir, 'partial-duplicates.jsonc');
+      await fs.writeFile(filePath, [
+        '{',
+        '  // Navigation',
+        '  "nav": {"home": "Home", "about": "About"},',
+        '  "common": {',
+        '    "welcome": "Welcome", // greeting',
+        '    "welcome": "Hello",',
+        '    "bye": "Bye"',
+        '  },',
+        '  "tags": [1,2,  3]',
+        '}',
+        '',
+      ].join('\n'));
+
+      await server.mergeDuplicateKeys(filePath);
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe([
+        '{',
+        '  // Navigation',
+        '  "nav": {"home": "Home", "about": "About"},',
+        '  "common": {',
+        '    "welcome": "Hello", // greeting',
+        '    "bye": "Bye"',
+        '  },',
+        '  "tags": [1,2,  3]',
+        '}',
+        '',
+      ].join('\n'));
+    });
+
+    it('should leave files without duplicates untouched', async () => {
+      const filePath = path.join(testDir, 'no-duplicates.jsonc');
+      const content = '{\n  // keep me\n  "a": {"b": 1},\n  "c": [1,2]\n}\n';
+      await fs.writeFile(filePath, content);
+
+      expect(await server.mergeDuplicateKeys(filePath)).toBeUndefined();
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(content);
+      expect(await new Backups().list(filePath)).toEqual([]);
+    });
+
+    it('should keep "__proto__" keys', async () => {
+      const filePath = path.join(testDir, 'proto-duplicates.json');
+      await fs.writeFile(filePath, '{"__proto__": {"a": 1}, "x": 1, "__proto__": {"b": 2}}');
+
+      await server.mergeDuplicateKeys(filePath);
+
+      const merged = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      expect(Object.keys(merged)).toEqual(['__proto__', 'x']);
+      expect(Object.getOwnPropertyDescriptor(merged, '__proto__')!.value).toEqual({ a: 1, b: 2 });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { EditHistory } from '../src/history';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Edit History', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp', 'history');
+  const filePath = path.join(testDir, 'en.json');
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(filePath, '{\n  "title": "Home"\n}\n');
+  });
+
+  it('should keep each version in its own file next to an index, in a .json-editor-mcp directory', async () => {
+    await server.writeMultipleJsonValues([filePath], 'title', 'Start');
+    await server.writeMultipleJsonValues([filePath], 'title', 'Begin');
+
+    const directory = path.join(testDir, '.json-editor-mcp', 'history', 'en.json');
+    const index = JSON.parse(await fs.readFile(path.join(directory, 'index.json'), 'utf-8'));
+    expect(index.undo.map((entry: any) => entry.id)).toEqual([1, 2]);
+    expect(await fs.readFile(path.join(directory, '1.json'), 'utf-8')).toBe('{\n  "title": "Home"\n}\n');
+    expect(await fs.readFile(path.join(directory, '2.json'), 'utf-8')).toBe('{\n  "title": "Start"\n}\n');
+  });
+
+  it('should undo and redo edits in order', async () => {
+    const original = await fs.readFile(filePath, 'utf-8');
+    await server.writeMultipleJsonValues([filePath], 'title', 'Start');
+    await server.deleteMultipleJsonValues([filePath], 'title');
+
+    await server.undoLastEdit(filePath);
+    expect(await readTestFile(filePath)).toEqual({ title: 'Start' });
+    await server.undoLastEdit(filePath);
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(original);
+
+    await server.redoEdit(filePath);
+    expect(await readTestFile(filePath)).toEqual({ title: 'Start' });
+    await server.redoEdit(filePath);
+    expect(await readTestFile(filePath)).toEqual({});
+  });
+
+  it('should fail when there is nothing to undo or redo', async () => {
+    await expect(server.undoLastEdit(filePath)).rejects.toThrow(`No edits of ${filePath} to undo`);
+    await expect(server.redoEdit(filePath)).rejects.toThrow(`No undone edits of ${filePath} to redo`);
+  });
+
+  it('should discard undone edits once the file is edited again', async () => {
+    await server.writeMultipleJsonValues([filePath], 'a', 1);
+    await server.undoLastEdit(filePath);
+    await server.writeMultipleJsonValues([filePath], 'b', 2);
+
+    await expect(server.redoEdit(filePath)).rejects.toThrow('to redo');
+  });
+
+  it('should remove a file again when undoing the edit that created it', async () => {
+    const newFile = path.join(testDir, 'new.json');
+    await server.writeMultipleJsonValues([newFile], 'a', 1);
+
+    await server.undoLastEdit(newFile);
+
+    await expect(fs.access(newFile)).rejects.toThrow();
+    await server.redoEdit(newFile);
+    expect(await readTestFile(newFile)).toEqual({ a: 1 });
+  });
+
+  it('should refuse to undo over changes made outside the server', async () => {
+    await server.writeMultipleJsonValues([filePath], 'a', 1);
+    await fs.writeFile(filePath, '{"edited": "by hand"}');
+
+    await expect(server.undoLastEdit(filePath)).rejects.toThrow(`File ${filePath} has changed since its last recorded edit`);
+    expect(await readTestFile(filePath)).toEqual({ edited: 'by hand' });
+  });
+
+  it('should record every file of a transaction', async () => {
+    const other = path.join(testDir, 'es.json');
+    await server.transaction([
+      { op: 'write', filePath, path: 'a', value: 1 },
+      { op: 'write', filePath: other, path: 'a', value: 1 },
+    ]);
+
+    await server.undoLastEdit(other);
+
+    expect(await readTestFile(filePath)).toEqual({ title: 'Home', a: 1 });
+    await expect(fs.access(other)).rejects.toThrow();
+  });
+
+  it('should not record writes that change nothing', async () => {
+    await server.writeMultipleJsonValues([filePath], 'title', 'Home');
+
+    expect((await server.listEditHistory(filePath)).undo).toEqual([]);
+  });
+
+  it('should list edits most recent first with the hash each one restores', async () => {
+    const original = await server.readMultipleJsonValues([filePath], undefined, '', true);
+    await server.writeMultipleJsonValues([filePath], 'a', 1);
+    await server.writeMultipleJsonValues([filePath], 'b', 2);
+    await server.undoLastEdit(filePath);
+
+    const history = await server.listEditHistory(filePath);
+
+    expect(history.undo).toHaveLength(1);
+    expect(history.undo[0].hash).toBe(original[filePath].hash);
+    expect(history.redo).toHaveLength(1);
+    expect(history.undo[0].timestamp).toEqual(expect.any(String));
+  });
+
+  describe('limits', () => {
+    it('should keep only the most recent versions', async () => {
+      server = new JsonEditorMCPServerTestable({}, { limit: 2 });
+      for (const value of [1, 2, 3]) {
+        await server.writeMultipleJsonValues([filePath], 'a', value);
+      }
+
+      const directory = path.join(testDir, '.json-editor-mcp', 'history', 'en.json');
+      expect((await fs.readdir(directory)).sort()).toEqual(['2.json', '3.json', 'index.json']);
+
+      await server.undoLastEdit(filePath);
+      await server.undoLastEdit(filePath);
+
+      expect(await readTestFile(filePath)).toEqual({ title: 'Home', a: 1 });
+      await expect(server.undoLastEdit(filePath)).rejects.toThrow('to undo');
+    });
+
+    it('should keep no history with a limit of 0', async () => {
+      const history = new EditHistory({ limit: 0 });
+      await history.record(filePath, '{}', '{"a": 1}');
+
+      await expect(fs.access(history.historyDirectory(filePath))).rejects.toThrow();
+    });
+  });
+});
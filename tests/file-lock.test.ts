@@ -0,0 +1,152 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { FileLocks } from '../src/lock';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('File Locks', () => {
+  const testDir = path.join(__dirname, 'temp', 'locks');
+
+  beforeEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  describe('in-process queue', () => {
+    it('should run tasks on the same file one at a time, in order', async () => {
+      const locks = new FileLocks();
+      const filePath = path.join(testDir, 'queue.json');
+      const events: string[] = [];
+
+      await Promise.all([1, 2, 3].map((i) => locks.withLock(filePath, async () => {
+        events.push(`start ${i}`);
+        await delay(5);
+        events.push(`end ${i}`);
+      })));
+
+      expect(events).toEqual(['start 1', 'end 1', 'start 2', 'end 2', 'start 3', 'end 3']);
+    });
+
+    it('should treat different spellings of a path as the same file', async () => {
+      const locks = new FileLocks();
+      const events: string[] = [];
+
+      await Promise.all([
+        locks.withLock(path.join(testDir, 'same.json'), async () => {
+          events.push('start a');
+          await delay(5);
+          events.push('end a');
+        }),
+        locks.withLock(path.join(testDir, 'sub', '..', 'same.json'), async () => {
+          events.push('start b');
+        }),
+      ]);
+
+      expect(events).toEqual(['start a', 'end a', 'start b']);
+    });
+
+    it('should not hold up tasks on other files', async () => {
+      const locks = new FileLocks();
+      const events: string[] = [];
+
+      await Promise.all([
+        locks.withLock(path.join(testDir, 'a.json'), async () => {
+          await delay(20);
+          events.push('a');
+        }),
+        locks.withLock(path.join(testDir, 'b.json'), async () => {
+          events.push('b');
+        }),
+      ]);
+
+      expect(events).toEqual(['b', 'a']);
+    });
+
+    it('should hold several files at once without deadlocking on opposite orders', async () => {
+      const locks = new FileLocks();
+      const a = path.join(testDir, 'a.json');
+      const b = path.join(testDir, 'b.json');
+      const events: string[] = [];
+
+      await Promise.all([
+        locks.withLocks([a, b], async () => {
+          events.push('start ab');
+          await delay(5);
+          events.push('end ab');
+        }),
+        locks.withLocks([b, a], async () => {
+          events.push('start ba');
+        }),
+      ]);
+
+      expect(events).toEqual(['start ab', 'end ab', 'start ba']);
+    });
+
+    it('should release the lock when a task fails', async () => {
+      const locks = new FileLocks();
+      const filePath = path.join(testDir, 'failure.json');
+
+      await expect(locks.withLock(filePath, async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      await expect(locks.withLock(filePath, async () => 'next')).resolves.toBe('next');
+    });
+  });
+
+  describe('lockfiles', () => {
+    it('should hold a lockfile only while the task runs', async () => {
+      const locks = new FileLocks({ lockfile: true });
+      const filePath = path.join(testDir, 'held.json');
+
+      await locks.withLock(filePath, async () => {
+        expect(await fs.readFile(`${filePath}.lock`, 'utf-8')).toBe(String(process.pid));
+      });
+
+      await expect(fs.access(`${filePath}.lock`)).rejects.toThrow();
+    });
+
+    it('should wait for a lockfile held by another process', async () => {
+      const locks = new FileLocks({ lockfile: true, timeoutMs: 2000 });
+      const filePath = path.join(testDir, 'wait.json');
+      await fs.writeFile(`${filePath}.lock`, '99999');
+      setTimeout(() => fs.rm(`${filePath}.lock`), 50);
+
+      await expect(locks.withLock(filePath, async () => 'done')).resolves.toBe('done');
+    });
+
+    it('should give up after the timeout', async () => {
+      const locks = new FileLocks({ lockfile: true, timeoutMs: 50 });
+      const filePath = path.join(testDir, 'timeout.json');
+      await fs.writeFile(`${filePath}.lock`, '99999');
+
+      await expect(locks.withLock(filePath, async () => 'done')).rejects.toThrow(`File ${filePath} is locked by another process`);
+      expect(await fs.readFile(`${filePath}.lock`, 'utf-8')).toBe('99999');
+    });
+
+    it('should take over stale lockfiles', async () => {
+      const locks = new FileLocks({ lockfile: true, timeoutMs: 50, staleMs: 1000 });
+      const filePath = path.join(testDir, 'stale.json');
+      await fs.writeFile(`${filePath}.lock`, '99999');
+      const past = new Date(Date.now() - 60000);
+      await fs.utimes(`${filePath}.lock`, past, past);
+
+      await expect(locks.withLock(filePath, async () => 'done')).resolves.toBe('done');
+    });
+
+    it('should be used by the tool methods when enabled', async () => {
+      const server = new JsonEditorMCPServerTestable({ lockfile: true, timeoutMs: 50 });
+      const filePath = path.join(testDir, 'tool.json');
+      await fs.writeFile(filePath, '{}');
+
+      await server.writeMultipleJsonValues([filePath], 'a', 1);
+      await fs.writeFile(`${filePath}.lock`, '99999');
+      const result = await server.writeMultipleJsonValues([filePath], 'b', 2);
+
+      expect(result[filePath]).toContain('is locked by another process');
+      expect(await readTestFile(filePath)).toEqual({ a: 1 });
+    });
+  });
+});
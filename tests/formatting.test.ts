@@ -0,0 +1,113 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { DEFAULT_FORMAT, detectFormat, formatJson } from '../src/format';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Formatting Preservation', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp');
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  describe('detectFormat', () => {
+    it('should detect two-space, four-space and tab indentation', () => {
+      expect(detectFormat('{\n  "a": 1\n}').indent).toBe('  ');
+      expect(detectFormat('{\n    "a": 1\n}').indent).toBe('    ');
+      expect(detectFormat('{\n\t"a": 1\n}').indent).toBe('\t');
+    });
+
+    it('should detect compact single-line documents', () => {
+      expect(detectFormat('{"a":1,"b":2}').indent).toBe('');
+    });
+
+    it('should use the default indentation for empty containers', () => {
+      expect(detectFormat('{}').indent).toBe(DEFAULT_FORMAT.indent);
+      expect(detectFormat('[]\n').indent).toBe(DEFAULT_FORMAT.indent);
+    });
+
+    it('should detect line endings and the final newline', () => {
+      expect(detectFormat('{\r\n  "a": 1\r\n}\r\n')).toMatchObject({ eol: '\r\n', finalNewline: true });
+      expect(detectFormat('{\n  "a": 1\n}')).toMatchObject({ eol: '\n', finalNewline: false });
+    });
+
+    it('should detect escaped non-ASCII characters and slashes', () => {
+      expect(detectFormat('{"a": "caf\\u00e9"}').escapeNonAscii).toBe(true);
+      expect(detectFormat('{"a": "café"}').escapeNonAscii).toBe(false);
+      expect(detectFormat('{"a": "\\u0041"}').escapeNonAscii).toBe(false);
+      expect(detectFormat('{"a": "\\\\u00e9"}').escapeNonAscii).toBe(false);
+      expect(detectFormat('{"url": "https:\\/\\/example.com"}').escapeSlash).toBe(true);
+      expect(detectFormat('{"url": "https://example.com"}').escapeSlash).toBe(false);
+    });
+
+    it('should detect a byte order mark', () => {
+      expect(detectFormat('\uFEFF{\n    "a": 1\n}')).toMatchObject({ bom: true, indent: '    ' });
+    });
+  });
+
+  describe('formatJson', () => {
+    it('should round-trip text that matches its detected format', () => {
+      const samples = [
+        '{\n\t"a": {\n\t\t"b": [\n\t\t\t1\n\t\t]\n\t}\n}\n',
+        '{\r\n    "a": "b"\r\n}',
+        '{"a":{"b":[1,2]},"c":"d"}',
+        '{\n  "name": "caf\\u00e9 \\ud83c\\udf89"\n}\n',
+        '{\n  "url": "https:\\/\\/example.com\\/path"\n}',
+        '\uFEFF{\n  "a": 1\n}\n',
+      ];
+
+      for (const text of samples) {
+        const data = JSON.parse(text.replace(/^\uFEFF/, ''));
+        expect(formatJson(data, detectFormat(text))).toBe(text);
+      }
+    });
+
+    it('should keep line breaks inside strings escaped with CRLF line endings', () => {
+      const format = { ...DEFAULT_FORMAT, eol: '\r\n' as const };
+
+      expect(formatJson({ a: 'x\ny' }, format)).toBe('{\r\n  "a": "x\\ny"\r\n}');
+    });
+  });
+
+  describe('writeJsonFile', () => {
+    it('should produce a one-line diff when changing a value in a tab-indented CRLF file', async () => {
+      const filePath = path.join(testDir, 'format-tabs-crlf.json');
+      const original = '{\r\n\t"common": {\r\n\t\t"welcome": "Welcome",\r\n\t\t"goodbye": "Goodbye"\r\n\t}\r\n}\r\n';
+      await fs.writeFile(filePath, original);
+
+      await server.writeMultipleJsonValues([filePath], 'common.welcome', 'Hello');
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      expect(content).toBe(original.replace('"Welcome"', '"Hello"'));
+    });
+
+    it('should keep four-space indentation and the final newline when adding a key', async () => {
+      const filePath = path.join(testDir, 'format-four-spaces.json');
+      await fs.writeFile(filePath, '{\n    "a": 1\n}\n');
+
+      await server.writeMultipleJsonValues([filePath], 'b', 2);
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{\n    "a": 1,\n    "b": 2\n}\n');
+    });
+
+    it('should keep ASCII-escaped files escaped', async () => {
+      const filePath = path.join(testDir, 'format-escaped.json');
+      await fs.writeFile(filePath, '{\n  "a": "caf\\u00e9"\n}');
+
+      await server.writeMultipleJsonValues([filePath], 'b', 'niño');
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{\n  "a": "caf\\u00e9",\n  "b": "ni\\u00f1o"\n}');
+    });
+
+    it('should use the default format for new files', async () => {
+      const filePath = path.join(testDir, 'format-new-file.json');
+      await fs.rm(filePath, { force: true });
+
+      await server.writeJsonFile(filePath, { a: { b: 1 } });
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(JSON.stringify({ a: { b: 1 } }, null, 2));
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { createTestFile } from './setup';
+import { IcuSyntaxError, parseIcuMessage, validateIcuMessages } from '../src/icu';
+import { promises as fs } from 'fs';
+
+describe('ICU Messages', () => {
+  describe('parseIcuMessage', () => {
+    it('should parse text and arguments', () => {
+      expect(parseIcuMessage('Hello {name}, you have {count, number} new {count, number, ::compact-short}')).toEqual([
+        { type: 'text', value: 'Hello ' },
+        { type: 'argument', name: 'name' },
+        { type: 'text', value: ', you have ' },
+        { type: 'argument', name: 'count', format: 'number', style: undefined },
+        { type: 'text', value: ' new ' },
+        { type: 'argument', name: 'count', format: 'number', style: '::compact-short' },
+      ]);
+    });
+
+    it('should parse plural, selectordinal and select arguments', () => {
+      expect(parseIcuMessage('{n, plural, offset:1 =0 {none} one {# item} other {# items}}')).toEqual([
+        {
+          type: 'plural',
+          name: 'n',
+          offset: 1,
+          options: [
+            { selector: '=0', message: [{ type: 'text', value: 'none' }] },
+            { selector: 'one', message: [{ type: 'pound' }, { type: 'text', value: ' item' }] },
+            { selector: 'other', message: [{ type: 'pound' }, { type: 'text', value: ' items' }] },
+          ],
+        },
+      ]);
+      expect(parseIcuMessage('{g, select, female {She} other {They}} came {n, selectordinal, one {#st} other {#th}}')).toHaveLength(3);
+    });
+
+    it('should parse rich text tags', () => {
+      expect(parseIcuMessage('Read <link>the <b>terms</b></link><br/>')).toEqual([
+        { type: 'text', value: 'Read ' },
+        {
+          type: 'tag',
+          name: 'link',
+          children: [
+            { type: 'text', value: 'the ' },
+            { type: 'tag', name: 'b', children: [{ type: 'text', value: 'terms' }] },
+          ],
+        },
+        { type: 'tag', name: 'br', children: [] },
+      ]);
+    });
+
+    it('should treat quoted and stray syntax characters as text', () => {
+      expect(parseIcuMessage("It''s '{literal}' a < b } # done")).toEqual([
+        { type: 'text', value: "It's {literal} a < b } # done" },
+      ]);
+      expect(parseIcuMessage("{n, plural, other {'#' is #}}")).toEqual([
+        { type: 'plural', name: 'n', offset: undefined, options: [{ selector: 'other', message: [{ type: 'text', value: '# is ' }, { type: 'pound' }] }] },
+      ]);
+    });
+
+    it.each([
+      ['Hello {name', 'Expected "}" to close the argument at line 1, column 7'],
+      ['Hello {}', 'Empty argument at line 1, column 7'],
+      ['{count, plural, one {# item}}', 'The plural argument needs an "other" option at line 1, column 29'],
+      ['{count, plural, one {# item} other {# items}', 'Expected "}" to close the argument at line 1, column 1'],
+      ['{count, plural one {#} other {#}}', 'Expected "," and the options of the plural argument at line 1, column 16'],
+      ['{count, plural, one # other {#}}', 'Expected "{" after the plural option "one" at line 1, column 21'],
+      ['{count, plural, other {a} other {b}}', 'Duplicate plural option "other" at line 1, column 27'],
+      ['{count, plural, other {a}', 'Expected "}" to close the argument at line 1, column 1'],
+      ['{g, select, =1 {a} other {b}}', 'Expected select options at line 1, column 13'],
+      ['{count, plurl, other {a}}', 'Unknown argument type "plurl"'],
+      ['{n, number, }', 'Expected a style after "number," at line 1, column 13'],
+      ['<b>bold', 'Tag <b> is not closed at line 1, column 1'],
+      ['<b>bold</i>', 'Closing tag </i> does not match <b> at line 1, column 8'],
+      ['bold</b>', 'Closing tag without an opening tag at line 1, column 5'],
+      ['Line one\nline {two', 'Expected "}" to close the argument at line 2, column 6'],
+    ])('should reject %j', (message, error) => {
+      expect(() => parseIcuMessage(message)).toThrow(error);
+    });
+
+    it('should report the offset of the error', () => {
+      try {
+        parseIcuMessage('ab\n{n, plural, one {x}}');
+        fail('Expected an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(IcuSyntaxError);
+        expect(error).toMatchObject({ offset: 22, line: 2, column: 20 });
+      }
+    });
+  });
+
+  describe('validateIcuMessages', () => {
+    it('should name the path of the first invalid string', () => {
+      expect(() => validateIcuMessages({ nav: { home: 'Home', items: '{n, plural, one {#}}' } }, ['pages'])).toThrow(
+        'Invalid ICU message at pages.nav.items: The plural argument needs an "other" option at line 1, column 20'
+      );
+      expect(() => validateIcuMessages('{')).toThrow(/^Invalid ICU message: Expected/);
+    });
+
+    it('should accept values without strings', () => {
+      expect(() => validateIcuMessages({ count: 3, list: [null, true] })).not.toThrow();
+    });
+  });
+
+  describe('tool method', () => {
+    let server: JsonEditorMCPServerTestable;
+
+    beforeEach(() => {
+      server = new JsonEditorMCPServerTestable();
+    });
+
+    it('should reject invalid messages before touching any file', async () => {
+      const filePath = await createTestFile('icu-en.json', { common: { welcome: 'Welcome' } });
+      const original = await fs.readFile(filePath, 'utf-8');
+
+      await expect(server.writeMultipleJsonValues([filePath], 'common.items', '{count, plural, one {# item} other {# items}', undefined, undefined, undefined, undefined, true))
+        .rejects.toThrow('Invalid ICU message at common.items: Expected "}" to close the argument at line 1, column 1');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(original);
+    });
+
+    it('should write valid messages, and any string without validation', async () => {
+      const filePath = await createTestFile('icu-en.json', {});
+
+      await server.writeMultipleJsonValues([filePath], 'common', { items: '{count, plural, one {# item} other {# items}}' }, undefined, undefined, undefined, undefined, true);
+      await server.writeMultipleJsonValues([filePath], 'common.broken', 'Hello {name');
+
+      expect(JSON.parse(await fs.readFile(filePath, 'utf-8'))).toEqual({
+        common: { items: '{count, plural, one {# item} other {# items}}', broken: 'Hello {name' },
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { JsonDocument } from '../src/document';
+import { JsonPatchError, JsonPatchOperation, applyJsonPatch } from '../src/patch';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('JSON Patch', () => {
+  const patch = (value: any, operations: JsonPatchOperation[]): any => {
+    const document = new JsonDocument(JSON.stringify(value));
+    applyJsonPatch(document, operations);
+    return document.value;
+  };
+
+  describe('applyJsonPatch', () => {
+    it('should add object members and replace existing ones', () => {
+      expect(patch({ foo: 'bar' }, [{ op: 'add', path: '/baz', value: 'qux' }])).toEqual({ foo: 'bar', baz: 'qux' });
+      expect(patch({ foo: 'bar' }, [{ op: 'add', path: '/foo', value: ['x'] }])).toEqual({ foo: ['x'] });
+    });
+
+    it('should insert array items and append with "-"', () => {
+      expect(patch({ foo: ['bar', 'baz'] }, [{ op: 'add', path: '/foo/1', value: 'qux' }])).toEqual({ foo: ['bar', 'qux', 'baz'] });
+      expect(patch({ foo: ['bar'] }, [{ op: 'add', path: '/foo/-', value: 'qux' }])).toEqual({ foo: ['bar', 'qux'] });
+    });
+
+    it('should replace the whole document at the empty pointer', () => {
+      expect(patch({ foo: 1 }, [{ op: 'add', path: '', value: { bar: 2 } }])).toEqual({ bar: 2 });
+    });
+
+    it('should require the parent of an added value to exist', () => {
+      expect(() => patch({ foo: 'bar' }, [{ op: 'add', path: '/baz/bat', value: 'qux' }])).toThrow(JsonPatchError);
+      expect(() => patch({ foo: 'bar' }, [{ op: 'add', path: '/foo/bat', value: 'qux' }])).toThrow('cannot add bat to a string');
+    });
+
+    it('should remove members and array items', () => {
+      expect(patch({ baz: 'qux', foo: 'bar' }, [{ op: 'remove', path: '/baz' }])).toEqual({ foo: 'bar' });
+      expect(patch({ foo: ['bar', 'qux', 'baz'] }, [{ op: 'remove', path: '/foo/1' }])).toEqual({ foo: ['bar', 'baz'] });
+    });
+
+    it('should only replace values that exist', () => {
+      expect(patch({ baz: 'qux', foo: 'bar' }, [{ op: 'replace', path: '/baz', value: 'boo' }])).toEqual({ baz: 'boo', foo: 'bar' });
+      expect(() => patch({ foo: 'bar' }, [{ op: 'replace', path: '/baz', value: 'boo' }])).toThrow('baz does not exist');
+    });
+
+    it('should move values', () => {
+      expect(patch({ foo: { bar: 'baz', waldo: 'fred' }, qux: { corge: 'grault' } }, [
+        { op: 'move', from: '/foo/waldo', path: '/qux/thud' },
+      ])).toEqual({ foo: { bar: 'baz' }, qux: { corge: 'grault', thud: 'fred' } });
+      expect(patch({ foo: ['all', 'grass', 'cows', 'eat'] }, [{ op: 'move', from: '/foo/1', path: '/foo/3' }]))
+        .toEqual({ foo: ['all', 'cows', 'eat', 'grass'] });
+    });
+
+    it('should not move a value into its own children', () => {
+      expect(() => patch({ a: { b: {} } }, [{ op: 'move', from: '/a', path: '/a/b/c' }])).toThrow('cannot move a value into one of its own children');
+    });
+
+    it('should copy values', () => {
+      expect(patch({ a: { b: 1 } }, [{ op: 'copy', from: '/a', path: '/c' }])).toEqual({ a: { b: 1 }, c: { b: 1 } });
+    });
+
+    it('should test values structurally', () => {
+      const value = { baz: 'qux', foo: ['a', 2, 'c'] };
+
+      expect(patch(value, [
+        { op: 'test', path: '/baz', value: 'qux' },
+        { op: 'test', path: '/foo', value: ['a', 2, 'c'] },
+      ])).toEqual(value);
+      expect(() => patch(value, [{ op: 'test', path: '/baz', value: 'bar' }]))
+        .toThrow('Patch operation 0 (test) failed: value at "/baz" is "qux", expected "bar"');
+    });
+
+    it('should reject malformed operations', () => {
+      expect(() => patch({}, [{ op: 'frobnicate', path: '/a' } as any])).toThrow('unknown op');
+      expect(() => patch({}, [{ op: 'add', path: '/a' }])).toThrow('"value" is required');
+      expect(() => patch({}, [{ op: 'copy', path: '/a' }])).toThrow('"from" must be a JSON Pointer string');
+      expect(() => patch({}, [{ op: 'add', path: 'a', value: 1 }])).toThrow('JSON Pointer must start with "/"');
+    });
+  });
+
+  describe('tool methods', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should apply every operation and keep the formatting of the rest of the file', async () => {
+      const filePath = path.join(testDir, 'patch-apply.json');
+      await fs.writeFile(filePath, '{\n    "version": 1,\n    "tags": ["a", "c"],\n    "old": true\n}\n');
+
+      await server.applyJsonPatch(filePath, [
+        { op: 'test', path: '/version', value: 1 },
+        { op: 'replace', path: '/version', value: 2 },
+        { op: 'add', path: '/tags/1', value: 'b' },
+        { op: 'move', from: '/old', path: '/legacy' },
+      ]);
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{\n    "version": 2,\n    "tags": ["a", "b", "c"],\n    "legacy": true\n}\n');
+    });
+
+    it('should leave the file untouched when an operation fails', async () => {
+      const filePath = path.join(testDir, 'patch-atomic.json');
+      const original = '{\n  "version": 1\n}';
+      await fs.writeFile(filePath, original);
+
+      await expect(server.applyJsonPatch(filePath, [
+        { op: 'replace', path: '/version', value: 2 },
+        { op: 'test', path: '/version', value: 1 },
+      ])).rejects.toThrow('Patch operation 1 (test) failed');
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(original);
+    });
+
+    it('should create missing files', async () => {
+      const filePath = path.join(testDir, 'patch-new.json');
+      await fs.rm(filePath, { force: true });
+
+      await server.applyJsonPatch(filePath, [{ op: 'add', path: '/a', value: 1 }]);
+
+      expect(await readTestFile(filePath)).toEqual({ a: 1 });
+    });
+  });
+});
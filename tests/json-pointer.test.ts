@@ -0,0 +1,100 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { PathSyntaxError, formatPointer, parsePointer } from '../src/path';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('JSON Pointer Support', () => {
+  describe('parsePointer', () => {
+    it.each([
+      ['', []],
+      ['/', ['']],
+      ['/common/welcome', ['common', 'welcome']],
+      ['/items/0', ['items', '0']],
+      ['/a~1b', ['a/b']],
+      ['/m~0n', ['m~n']],
+      ['/~01', ['~1']],
+      ['/errors.404', ['errors.404']],
+      ['/a//b', ['a', '', 'b']],
+    ])('should parse %j', (input, expected) => {
+      expect(parsePointer(input)).toEqual(expected);
+    });
+
+    it('should reject pointers without a leading slash', () => {
+      expect(() => parsePointer('common/welcome')).toThrow(PathSyntaxError);
+      expect(() => parsePointer('common/welcome')).toThrow('JSON Pointer must start with "/"');
+    });
+
+    it('should reject invalid escapes', () => {
+      expect(() => parsePointer('/a~2b')).toThrow('"~" must be followed by "0" or "1" at position 2');
+      expect(() => parsePointer('/a~')).toThrow(PathSyntaxError);
+    });
+  });
+
+  describe('formatPointer', () => {
+    it('should escape "~" and "/" and round-trip through parsePointer', () => {
+      const keys = ['a/b', 'm~n', '', 'errors.404'];
+
+      expect(formatPointer(keys)).toBe('/a~1b/m~0n//errors.404');
+      expect(parsePointer(formatPointer(keys))).toEqual(keys);
+    });
+  });
+
+  describe('tool methods', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should read values by pointer', async () => {
+      const filePath = path.join(testDir, 'pointer-read.json');
+      await fs.writeFile(filePath, JSON.stringify({ common: { welcome: 'Welcome' }, items: ['a', 'b'], '': { 'a/b': 1 } }));
+
+      expect((await server.readMultipleJsonValues([filePath], undefined, '/common/welcome'))[filePath]).toBe('Welcome');
+      expect((await server.readMultipleJsonValues([filePath], undefined, '/items/1'))[filePath]).toBe('b');
+      expect((await server.readMultipleJsonValues([filePath], undefined, '//a~1b'))[filePath]).toBe(1);
+    });
+
+    it('should write and delete values by pointer', async () => {
+      const filePath = path.join(testDir, 'pointer-write.json');
+      await fs.writeFile(filePath, JSON.stringify({ errors: { '404': 'Not found', '500': 'Server error' } }, null, 2));
+
+      await server.writeMultipleJsonValues([filePath], undefined, 'Gone', '/errors/410');
+      await server.writeMultipleJsonValues([filePath], undefined, 'X', '/links/https:~1~1x.com');
+      await server.deleteMultipleJsonValues([filePath], undefined, '/errors/500');
+
+      expect(await readTestFile(filePath)).toEqual({
+        errors: { '404': 'Not found', '410': 'Gone' },
+        links: { 'https://x.com': 'X' },
+      });
+    });
+
+    it('should write object entries at the top level with the empty pointer', async () => {
+      const filePath = path.join(testDir, 'pointer-root.json');
+      await fs.writeFile(filePath, '{\n  "a": 1\n}');
+
+      await server.writeMultipleJsonValues([filePath], undefined, { b: 2 }, '');
+
+      expect(await readTestFile(filePath)).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should require exactly one of path and pointer', async () => {
+      const filePath = path.join(testDir, 'pointer-ambiguous.json');
+      await fs.writeFile(filePath, '{}');
+
+      await expect(server.readMultipleJsonValues([filePath], 'a', '/a')).rejects.toThrow('Provide either path or pointer, not both');
+      await expect(server.readMultipleJsonValues([filePath])).rejects.toThrow('Either path or pointer is required');
+    });
+
+    it('should refuse to delete the whole document', async () => {
+      const filePath = path.join(testDir, 'pointer-delete-root.json');
+      await fs.writeFile(filePath, '{"a": 1}');
+
+      const result = await server.deleteMultipleJsonValues([filePath], undefined, '');
+      expect(result[filePath]).toContain('Cannot delete the root value');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { QuerySyntaxError, compileQuery } from '../src/query';
+import { formatPath } from '../src/path';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('JSONPath Queries', () => {
+  const data = {
+    pages: {
+      home: { title: 'Home', errors: [{ code: 404, message: 'Not found' }, { code: 200 }] },
+      about: { title: 'About', draft: true },
+    },
+    errors: [{ code: 500, message: 'Server error' }, { code: 302 }],
+    items: ['a', 'b', 'c', 'd', 'e'],
+    'a.b': { '': 1 },
+  };
+
+  const paths = (query: string) => compileQuery(query)(data).map(({ keys }) => formatPath(keys));
+  const values = (query: string) => compileQuery(query)(data).map(({ value }) => value);
+
+  describe('compileQuery', () => {
+    it('should select the root', () => {
+      expect(values('$')).toEqual([data]);
+    });
+
+    it('should select members by name and wildcard', () => {
+      expect(paths('$.pages.*.title')).toEqual(['pages.home.title', 'pages.about.title']);
+      expect(values('$.pages.*.title')).toEqual(['Home', 'About']);
+      expect(values("$['a.b']['']")).toEqual([1]);
+      expect(values('$.pages.missing')).toEqual([]);
+    });
+
+    it('should select array items by index, list and slice', () => {
+      expect(values('$.items[0]')).toEqual(['a']);
+      expect(values('$.items[-1]')).toEqual(['e']);
+      expect(values('$.items[0,2]')).toEqual(['a', 'c']);
+      expect(values('$.items[1:3]')).toEqual(['b', 'c']);
+      expect(values('$.items[::2]')).toEqual(['a', 'c', 'e']);
+      expect(values('$.items[::-1]')).toEqual(['e', 'd', 'c', 'b', 'a']);
+      expect(values('$.items[-2:]')).toEqual(['d', 'e']);
+      expect(values('$.items[9]')).toEqual([]);
+      expect(paths('$.items[*]')).toEqual(['items.0', 'items.1', 'items.2', 'items.3', 'items.4']);
+    });
+
+    it('should descend recursively', () => {
+      expect(paths('$..title')).toEqual(['pages.home.title', 'pages.about.title']);
+      expect(paths('$..code')).toEqual(['pages.home.errors.0.code', 'pages.home.errors.1.code', 'errors.0.code', 'errors.1.code']);
+    });
+
+    it('should filter by comparison', () => {
+      expect(paths('$..errors[?(@.code>400)]')).toEqual(['errors.0', 'pages.home.errors.0']);
+      expect(values('$..errors[?(@.code >= 300 && @.code < 500)].code')).toEqual([302, 404]);
+      expect(values('$..errors[?(@.code == 200 || @.code == 302)].code')).toEqual([302, 200]);
+      expect(values("$.pages[?(@.title != 'Home')].title")).toEqual(['About']);
+      expect(values('$.items[?(@ > "c")]')).toEqual(['d', 'e']);
+    });
+
+    it('should filter by existence', () => {
+      expect(paths('$..errors[?(@.message)]')).toEqual(['errors.0', 'pages.home.errors.0']);
+      expect(values('$.pages[?(!@.draft)].title')).toEqual(['Home']);
+    });
+
+    it('should compare against the root', () => {
+      expect(values('$.errors[?(@.code == $.errors[0].code)].message')).toEqual(['Server error']);
+    });
+
+    it('should not order values of different types', () => {
+      expect(values('$.items[?(@ > 1)]')).toEqual([]);
+    });
+
+    it.each([
+      ['pages', 'query must start with "$" at position 0'],
+      ['$.', 'expected a member name, "*" or "[" at position 2'],
+      ['$.items[0', 'expected "," or "]" to close "[" at position 7 at position 9'],
+      ["$['a", 'unterminated string at position 2'],
+      ['$.items[?(@.code > 1]', 'expected ")" at position 20'],
+      ['$.items]', 'unexpected "]" at position 7'],
+    ])('should reject %s', (query, message) => {
+      expect(() => compileQuery(query)).toThrow(QuerySyntaxError);
+      expect(() => compileQuery(query)).toThrow(`Invalid query ${JSON.stringify(query)}: ${message}`);
+    });
+  });
+
+  describe('queryJson', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should return matched paths and values for every file', async () => {
+      const en = path.join(testDir, 'query-en.json');
+      const de = path.join(testDir, 'query-de.json');
+      await fs.writeFile(en, JSON.stringify({ pages: { home: { title: 'Home' }, about: { title: 'About' } } }));
+      await fs.writeFile(de, JSON.stringify({ pages: { home: { title: 'Start' } } }));
+
+      const result = await server.queryJson([en, de], '$.pages.*.title');
+
+      expect(result).toEqual({
+        [en]: [
+          { path: 'pages.home.title', value: 'Home' },
+          { path: 'pages.about.title', value: 'About' },
+        ],
+        [de]: [{ path: 'pages.home.title', value: 'Start' }],
+      });
+    });
+
+    it('should format matched keys in the path notation the other tools accept', async () => {
+      const filePath = path.join(testDir, 'query-dotted.json');
+      await fs.writeFile(filePath, JSON.stringify({ errors: { 'not.found': 'Missing' } }));
+
+      const result = await server.queryJson([filePath], '$.errors.*');
+      const [match] = result[filePath];
+
+      expect(match).toEqual({ path: 'errors["not.found"]', value: 'Missing' });
+      expect((await server.readMultipleJsonValues([filePath], match.path))[filePath]).toBe('Missing');
+    });
+
+    it('should report unreadable files without failing the others', async () => {
+      const good = path.join(testDir, 'query-good.json');
+      const bad = path.join(testDir, 'query-bad.json');
+      await fs.writeFile(good, '{"a": 1}');
+      await fs.writeFile(bad, '{"a": ');
+
+      const result = await server.queryJson([good, bad], '$.a');
+
+      expect(result[good]).toEqual([{ path: 'a', value: 1 }]);
+      expect(result[bad]).toContain('Error:');
+    });
+
+    it('should reject invalid queries before reading any file', async () => {
+      await expect(server.queryJson([path.join(testDir, 'query-none.json')], '$.[')).rejects.toThrow('Invalid query');
+    });
+  });
+});
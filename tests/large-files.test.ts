@@ -153,6 +153,23 @@ describe('Large File Handling', () => {
       expect(result.data).toEqual(duplicateData);
       expect(endTime - startTime).toBeLessThan(3000); // Should complete within 3 seconds
     });
+
+    it('should sync large locale files', async () => {
+      const reference: any = {};
+      for (let i = 0; i < 10000; i++) {
+        reference[`key${i}`] = `Value ${i}`;
+      }
+      const referencePath = await createTestFile('large-sync-en.json', reference);
+      const targetPath = await createTestFile('large-sync-es.json', {});
+
+      const startTime = Date.now();
+      const result = await server.syncLocaleFiles(referencePath, [targetPath], 'source');
+      const endTime = Date.now();
+
+      expect((result[targetPath] as any).added).toHaveLength(10000);
+      expect(JSON.stringify(await readTestFile(targetPath))).toBe(JSON.stringify(reference));
+      expect(endTime - startTime).toBeLessThan(3000); // Should complete within 3 seconds
+    });
   });
 
   describe('Memory Management', () => {
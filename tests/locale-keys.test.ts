@@ -0,0 +1,70 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { createTestFile } from './setup';
+import { collectLeafKeys, findMissingKeys } from '../src/locale';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Locale Keys', () => {
+  describe('collectLeafKeys', () => {
+    it('should list the keys of every non-object value in document order', () => {
+      expect(collectLeafKeys({ a: { b: 'x', c: { d: 1 } }, e: [1, 2], f: null, g: {} })).toEqual([
+        ['a', 'b'],
+        ['a', 'c', 'd'],
+        ['e'],
+        ['f'],
+      ]);
+    });
+  });
+
+  describe('findMissingKeys', () => {
+    it('should report missing and extra leaf paths', () => {
+      const reference = { nav: { home: 'Home', about: 'About' }, errors: { 'not.found': 'Not found' } };
+      const target = { nav: { home: 'Inicio', blog: 'Blog' } };
+
+      expect(findMissingKeys(reference, target)).toEqual({
+        missing: ['nav.about', 'errors["not.found"]'],
+        extra: ['nav.blog'],
+      });
+    });
+
+    it('should treat a leaf in place of an object as both missing and extra', () => {
+      expect(findMissingKeys({ title: { short: 'Home' } }, { title: 'Home' })).toEqual({
+        missing: ['title.short'],
+        extra: ['title'],
+      });
+    });
+  });
+
+  describe('tool method', () => {
+    let server: JsonEditorMCPServerTestable;
+
+    beforeEach(() => {
+      server = new JsonEditorMCPServerTestable();
+    });
+
+    it('should report per target file', async () => {
+      const en = await createTestFile('keys-en.json', { common: { welcome: 'Welcome', goodbye: 'Goodbye' } });
+      const es = await createTestFile('keys-es.json', { common: { welcome: 'Bienvenido' } });
+      const de = await createTestFile('keys-de.json', { common: { welcome: 'Willkommen', goodbye: 'Tschüss', extra: 'Extra' } });
+
+      const result = await server.findMissingKeys(en, [es, de]);
+
+      expect(result).toEqual({
+        [es]: { missing: ['common.goodbye'], extra: [] },
+        [de]: { missing: [], extra: ['common.extra'] },
+      });
+    });
+
+    it('should report unreadable targets and fail on an unreadable reference', async () => {
+      const en = await createTestFile('keys-en.json', { a: 'A' });
+      const broken = path.join(path.dirname(en), 'keys-broken.json');
+      await fs.writeFile(broken, '{');
+
+      const result = await server.findMissingKeys(en, [broken]);
+
+      expect(result[broken]).toMatch(/^Error: Failed to read JSON file/);
+      await expect(server.findMissingKeys(broken, [en])).rejects.toThrow('Failed to read JSON file');
+      await expect(server.findMissingKeys('keys-en.json', [en])).rejects.toThrow('Path must be absolute');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { JsonDocument } from '../src/document';
+import { placeholderFor, syncLocale } from '../src/locale';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Locale Sync', () => {
+  describe('syncLocale', () => {
+    const reference = new JsonDocument('{"title": "Home", "nav": {"home": "Home", "about": "About"}, "count": 3}');
+    const sync = (referenceDocument: JsonDocument, text: string, options = {}, parseOptions = {}) => {
+      const document = new JsonDocument(text, parseOptions);
+      const report = syncLocale(referenceDocument, document, options);
+      return { text: document.text, report };
+    };
+
+    it('should fill missing keys next to their neighbours in the reference', () => {
+      expect(sync(new JsonDocument('{"a": "A", "b": "B", "c": "C"}'), '{\n  "a": "a",\n  "c": "c"\n}').text)
+        .toBe('{\n  "a": "a",\n  "b": "TODO: B",\n  "c": "c"\n}');
+      expect(sync(new JsonDocument('{"a": "A", "b": "B", "c": "C"}'), '{"c": "c", "extra": "x"}').text)
+        .toBe('{"a": "TODO: A", "b": "TODO: B", "c": "c", "extra": "x"}');
+    });
+
+    it('should leave the order of existing keys alone', () => {
+      const { text, report } = sync(reference, '{"nav": { "about": "Acerca de" }, "title": "Inicio"}');
+
+      expect(text).toBe('{"nav": { "home": "TODO: Home", "about": "Acerca de" }, "count": 3, "title": "Inicio"}');
+      expect(report).toEqual({ added: ['nav.home', 'count'], removed: [], conflicts: [] });
+    });
+
+    it('should add nested and integer-like keys in the order of the reference', () => {
+      const { text, report } = sync(new JsonDocument('{"errors": {"title": "Oops", "404": "Not found", "500": "Failed"}}'), '{}', { placeholder: 'empty' });
+
+      expect(JSON.stringify(JSON.parse(text))).toBe('{"errors":{"404":"","500":"","title":""}}');
+      expect(text.indexOf('"title"')).toBeLessThan(text.indexOf('"404"'));
+      expect(report.added).toEqual(['errors.title', 'errors.404', 'errors.500']);
+    });
+
+    it('should keep extra keys unless asked to remove them', () => {
+      const target = '{"legacy": "Old", "title": "Inicio", "nav": { "blog": "Blog" }}';
+
+      expect(sync(reference, target).text).toBe('{"legacy": "Old", "title": "Inicio", "nav": { "blog": "Blog", "home": "TODO: Home", "about": "TODO: About" }, "count": 3}');
+      const { text, report } = sync(reference, target, { removeExtra: true });
+      expect(text).toBe('{"title": "Inicio", "nav": { "home": "TODO: Home", "about": "TODO: About" }, "count": 3}');
+      expect(report.removed).toEqual(['nav.blog', 'legacy']);
+    });
+
+    it('should keep comments and the text of existing keys', () => {
+      const target = '{\n  // Landing page\n  "title": "Inicio", // short\n  "nav": {\n    "about": "Acerca de"\n  },\n  "count": 3\n}';
+
+      expect(sync(reference, target, {}, { allowComments: true }).text).toBe(
+        '{\n  // Landing page\n  "title": "Inicio", // short\n  "nav": {\n    "home": "TODO: Home",\n    "about": "Acerca de"\n  },\n  "count": 3\n}'
+      );
+    });
+
+    it('should leave conflicting values as they are', () => {
+      const { text, report } = sync(new JsonDocument('{"title": {"short": "Home"}}'), '{"title": "Inicio"}');
+
+      expect(text).toBe('{"title": "Inicio"}');
+      expect(report.conflicts).toEqual(['title']);
+    });
+
+    it('should keep "__proto__" an ordinary key', () => {
+      const { text } = sync(new JsonDocument('{"__proto__": "x"}'), '{}', { placeholder: 'source' });
+
+      expect(text).toBe('{\n  "__proto__": "x"\n}');
+    });
+
+    it('should only accept objects', () => {
+      expect(() => sync(new JsonDocument('[]'), '{}')).toThrow('The reference locale file must contain a JSON object');
+      expect(() => sync(new JsonDocument('{}'), '"text"')).toThrow('The locale file must contain a JSON object');
+    });
+  });
+
+  describe('placeholderFor', () => {
+    it('should produce each kind of placeholder for strings', () => {
+      expect(placeholderFor('Home', 'empty')).toBe('');
+      expect(placeholderFor('Home', 'source')).toBe('Home');
+      expect(placeholderFor('Home', 'todo')).toBe('TODO: Home');
+    });
+
+    it('should copy other values and recurse into objects', () => {
+      expect(placeholderFor({ a: 'A', b: [1], c: null }, 'empty')).toEqual({ a: '', b: [1], c: null });
+    });
+  });
+
+  describe('tool method', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp', 'locale-sync');
+    const en = path.join(testDir, 'en.json');
+    const es = path.join(testDir, 'es.json');
+    const de = path.join(testDir, 'de.json');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(en, '{\n  "common": {\n    "welcome": "Welcome",\n    "goodbye": "Goodbye"\n  }\n}\n');
+      await fs.writeFile(es, '{\n    "common": {\n        "goodbye": "Adiós"\n    },\n    "old": "Viejo"\n}\n');
+      await fs.writeFile(de, '{\n  "common": {\n    "welcome": "Willkommen",\n    "goodbye": "Tschüss"\n  }\n}\n');
+    });
+
+    it('should sync every file, keeping its formatting and key order', async () => {
+      const result = await server.syncLocaleFiles(en, [es, de], 'source', true);
+
+      expect(result).toEqual({
+        [es]: { added: ['common.welcome'], removed: ['old'], conflicts: [] },
+        [de]: { added: [], removed: [], conflicts: [] },
+      });
+      expect(await fs.readFile(es, 'utf-8')).toBe('{\n    "common": {\n        "welcome": "Welcome",\n        "goodbye": "Adiós"\n    }\n}\n');
+    });
+
+    it('should leave files that are already in sync untouched', async () => {
+      const original = '{"common": {"welcome": "Willkommen", "goodbye": "Tschüss"}}';
+      await fs.writeFile(de, original);
+
+      await server.syncLocaleFiles(en, [de]);
+
+      expect(await fs.readFile(de, 'utf-8')).toBe(original);
+    });
+
+    it('should create missing target files', async () => {
+      const fr = path.join(testDir, 'fr.json');
+
+      await server.syncLocaleFiles(en, [fr], 'empty');
+
+      expect(JSON.parse(await fs.readFile(fr, 'utf-8'))).toEqual({ common: { welcome: '', goodbye: '' } });
+    });
+
+    it('should reject unknown placeholders before touching any file', async () => {
+      await expect(server.syncLocaleFiles(en, [es], 'blank' as any)).rejects.toThrow('Unknown placeholder: blank');
+    });
+  });
+});
@@ -6,10 +6,11 @@ import path from 'path';
 
 // Mock the MCP server for integration testing
 class MockJsonEditorMCPServer extends JsonEditorMCPServerTestable {
-  public async mergeDuplicateKeys(filePath: string): Promise<void> {
+  public async mergeDuplicateKeys(filePath: string): Promise<string | undefined> {
     const jsonData = await this.readJsonFile(filePath);
     const mergedData = this.deepMergeDuplicates(jsonData);
     await this.writeJsonFile(filePath, mergedData);
+    return undefined;
   }
 
   public async writeJsonFile(filePath: string, data: any): Promise<void> {
@@ -455,8 +456,8 @@ describe('MCP Integration Tests', () => {
       
       const results = await server.deleteMultipleJsonValues([filePath1, filePath2], "common.goodbye");
       
-      expect(results[filePath1]).toBe("Successfully deleted");
-      expect(results[filePath2]).toBe("Successfully deleted");
+      expect(results[filePath1]).toMatch(/^Successfully deleted\. Backup saved to /);
+      expect(results[filePath2]).toMatch(/^Successfully deleted\. Backup saved to /);
       
       const result1 = await readTestFile(filePath1);
       const result2 = await readTestFile(filePath2);
@@ -490,8 +491,8 @@ describe('MCP Integration Tests', () => {
       
       const results = await server.deleteMultipleJsonValues([filePath1, filePath2], "level1.level2.key1");
       
-      expect(results[filePath1]).toBe("Successfully deleted");
-      expect(results[filePath2]).toBe("Successfully deleted");
+      expect(results[filePath1]).toMatch(/^Successfully deleted\. Backup saved to /);
+      expect(results[filePath2]).toMatch(/^Successfully deleted\. Backup saved to /);
       
       const result1 = await readTestFile(filePath1);
       const result2 = await readTestFile(filePath2);
@@ -519,7 +520,7 @@ describe('MCP Integration Tests', () => {
       const results = await server.deleteMultipleJsonValues([filePath1, filePath2], "common.goodbye");
       
       expect(results[filePath1]).toContain("Error");
-      expect(results[filePath2]).toBe("Successfully deleted");
+      expect(results[filePath2]).toMatch(/^Successfully deleted\. Backup saved to /);
       
       const result1 = await readTestFile(filePath1);
       const result2 = await readTestFile(filePath2);
@@ -541,7 +542,7 @@ describe('MCP Integration Tests', () => {
       
       const results = await server.deleteMultipleJsonValues([filePath1, filePath2], "common.goodbye");
       
-      expect(results[filePath1]).toBe("Successfully deleted");
+      expect(results[filePath1]).toMatch(/^Successfully deleted\. Backup saved to /);
       expect(results[filePath2]).toContain("Error");
       
       const result1 = await readTestFile(filePath1);
@@ -565,8 +566,8 @@ describe('MCP Integration Tests', () => {
       
       const results = await server.deleteMultipleJsonValues([filePath1, filePath2], "key2");
       
-      expect(results[filePath1]).toBe("Successfully deleted");
-      expect(results[filePath2]).toBe("Successfully deleted");
+      expect(results[filePath1]).toMatch(/^Successfully deleted\. Backup saved to /);
+      expect(results[filePath2]).toMatch(/^Successfully deleted\. Backup saved to /);
       
       const result1 = await readTestFile(filePath1);
       const result2 = await readTestFile(filePath2);
@@ -0,0 +1,97 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { JsonDocument } from '../src/document';
+import { applyMergePatch } from '../src/merge-patch';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('JSON Merge Patch', () => {
+  const merge = (target: any, patch: any, keys: string[] = []): any => {
+    const document = new JsonDocument(JSON.stringify(target));
+    applyMergePatch(document, keys, patch);
+    return document.value;
+  };
+
+  describe('applyMergePatch', () => {
+    // Examples from RFC 7386, Appendix A
+    it.each([
+      [{ a: 'b' }, { a: 'c' }, { a: 'c' }],
+      [{ a: 'b' }, { b: 'c' }, { a: 'b', b: 'c' }],
+      [{ a: 'b' }, { a: null }, {}],
+      [{ a: 'b', b: 'c' }, { a: null }, { b: 'c' }],
+      [{ a: ['b'] }, { a: 'c' }, { a: 'c' }],
+      [{ a: 'c' }, { a: ['b'] }, { a: ['b'] }],
+      [{ a: { b: 'c' } }, { a: { b: 'd', c: null } }, { a: { b: 'd' } }],
+      [{ a: [{ b: 'c' }] }, { a: [1] }, { a: [1] }],
+      [['a', 'b'], ['c', 'd'], ['c', 'd']],
+      [{ a: 'b' }, ['c'], ['c']],
+      [{ a: 'foo' }, null, null],
+      [{ a: 'foo' }, 'bar', 'bar'],
+      [{ e: null }, { a: 1 }, { e: null, a: 1 }],
+      [[1, 2], { a: 'b', c: null }, { a: 'b' }],
+      [{}, { a: { bb: { ccc: null } } }, { a: { bb: {} } }],
+    ])('should merge %j with %j', (target, patch, expected) => {
+      expect(merge(target, patch)).toEqual(expected);
+    });
+
+    it('should merge into the value at the given keys', () => {
+      expect(merge({ pages: { home: { title: 'Home', old: 1 } } }, { subtitle: 'Hi', old: null }, ['pages', 'home']))
+        .toEqual({ pages: { home: { title: 'Home', subtitle: 'Hi' } } });
+    });
+
+    it('should create missing targets and delete targets patched with null', () => {
+      expect(merge({}, { a: 1, b: null }, ['x', 'y'])).toEqual({ x: { y: { a: 1 } } });
+      expect(merge({ x: 1, y: 2 }, null, ['x'])).toEqual({ y: 2 });
+      expect(merge({ y: 2 }, null, ['x'])).toEqual({ y: 2 });
+    });
+
+    it('should only edit the members the patch changes', () => {
+      const document = new JsonDocument('{\n  // greeting\n  "a":   "b",\n  "c": {"d": 1, "e": 2, "g": 3}\n}', { allowComments: true });
+
+      applyMergePatch(document, [], { c: { e: null, f: 3 } });
+
+      expect(document.text).toBe('{\n  // greeting\n  "a":   "b",\n  "c": {"d": 1, "g": 3, "f": 3}\n}');
+    });
+  });
+
+  describe('mergeJson', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should merge a subtree at a path', async () => {
+      const filePath = path.join(testDir, 'merge-patch-path.json');
+      await fs.writeFile(filePath, JSON.stringify({ pages: { home: { title: 'Home', draft: true } }, other: 1 }, null, 2));
+
+      await server.mergeJson(filePath, 'pages.home', { title: 'Start', draft: null, meta: { lang: 'en' } });
+
+      expect(await readTestFile(filePath)).toEqual({
+        pages: { home: { title: 'Start', meta: { lang: 'en' } } },
+        other: 1,
+      });
+    });
+
+    it('should merge at the top level with an empty path or pointer', async () => {
+      const filePath = path.join(testDir, 'merge-patch-root.json');
+      await fs.writeFile(filePath, '{\n  "a": 1,\n  "b": 2\n}');
+
+      await server.mergeJson(filePath, '', { b: null, c: 3 });
+      await server.mergeJson(filePath, undefined, { d: 4 }, '');
+
+      expect(await readTestFile(filePath)).toEqual({ a: 1, c: 3, d: 4 });
+    });
+
+    it('should accept a JSON Pointer target', async () => {
+      const filePath = path.join(testDir, 'merge-patch-pointer.json');
+      await fs.writeFile(filePath, JSON.stringify({ errors: { 'not.found': { title: 'Missing' } } }));
+
+      await server.mergeJson(filePath, undefined, { detail: 'Gone' }, '/errors/not.found');
+
+      expect(await readTestFile(filePath)).toEqual({ errors: { 'not.found': { title: 'Missing', detail: 'Gone' } } });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { PathSyntaxError, formatPath, parsePath } from '../src/path';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Path Syntax', () => {
+  describe('parsePath', () => {
+    it.each([
+      ['common.welcome', ['common', 'welcome']],
+      ['errors["404"]', ['errors', '404']],
+      ['errors["not.found"].title', ['errors', 'not.found', 'title']],
+      ["links['https://x.com']", ['links', 'https://x.com']],
+      ['a.b\\.c', ['a', 'b.c']],
+      ['a\\[0\\]', ['a[0]']],
+      ['a\\\\b', ['a\\b']],
+      ['items[0]', ['items', '0']],
+      ['items[12].name', ['items', '12', 'name']],
+      ['matrix[1][2]', ['matrix', '1', '2']],
+      ['[0].id', ['0', 'id']],
+      ['["a.b"]', ['a.b']],
+      ['a["quote\\"d"]', ['a', 'quote"d']],
+      ["a['it\\'s']", ['a', "it's"]],
+      ['a[""]', ['a', '']],
+    ])('should parse %s', (input, expected) => {
+      expect(parsePath(input)).toEqual(expected);
+    });
+
+    it('should keep the empty keys of plain dot notation', () => {
+      expect(parsePath('')).toEqual(['']);
+      expect(parsePath('.key')).toEqual(['', 'key']);
+      expect(parsePath('a..b')).toEqual(['a', '', 'b']);
+    });
+
+    it.each([
+      ['items[', 'expected an array index or a quoted key after "[" at position 6'],
+      ['items[x]', 'expected an array index or a quoted key after "[" at position 6'],
+      ['items[01]', 'array index 01 has a leading zero at position 6'],
+      ['items[0', 'expected "]" to close "[" at position 5 at position 7'],
+      ['a["b.c"', 'expected "]" to close "[" at position 1 at position 7'],
+      ['a["b.c]', 'unterminated double-quoted key at position 2'],
+      ["a['b", 'unterminated single-quoted key at position 2'],
+      ['items[0]x', 'unexpected "x" at position 8'],
+      ['a]b', 'unexpected "]" at position 1'],
+      ['a.b\\', 'dangling "\\" at the end of the path at position 3'],
+    ])('should reject %s', (input, message) => {
+      expect(() => parsePath(input)).toThrow(PathSyntaxError);
+      expect(() => parsePath(input)).toThrow(`Invalid path ${JSON.stringify(input)}: ${message}`);
+    });
+  });
+
+  describe('formatPath', () => {
+    it('should use plain dot notation where possible', () => {
+      expect(formatPath(['common', 'welcome'])).toBe('common.welcome');
+      expect(formatPath(['items', '0'])).toBe('items.0');
+    });
+
+    it('should bracket keys that cannot be written plainly', () => {
+      expect(formatPath(['errors', 'not.found'])).toBe('errors["not.found"]');
+      expect(formatPath(['a', ''])).toBe('a[""]');
+    });
+
+    it('should round-trip through parsePath', () => {
+      const samples = [['a.b', 'c'], ['x[0]'], ['back\\slash', 'quo"te'], ['', 'a'], ['https://x.com', 'title']];
+
+      for (const keys of samples) {
+        expect(parsePath(formatPath(keys))).toEqual(keys);
+      }
+    });
+  });
+
+  describe('tool methods', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should read, write and delete keys containing dots', async () => {
+      const filePath = path.join(testDir, 'path-dotted-keys.json');
+      await fs.writeFile(filePath, JSON.stringify({ errors: { '404': 'Not found' } }, null, 2));
+
+      await server.writeMultipleJsonValues([filePath], 'errors["not.found"]', 'Missing');
+      await server.writeMultipleJsonValues([filePath], "links['https://x.com']", 'X');
+      expect((await server.readMultipleJsonValues([filePath], 'errors.not\\.found'))[filePath]).toBe('Missing');
+
+      await server.deleteMultipleJsonValues([filePath], 'errors["404"]');
+      expect(await readTestFile(filePath)).toEqual({
+        errors: { 'not.found': 'Missing' },
+        links: { 'https://x.com': 'X' },
+      });
+    });
+
+    it('should write object values under keys containing dots', async () => {
+      const filePath = path.join(testDir, 'path-dotted-object.json');
+      await fs.rm(filePath, { force: true });
+
+      await server.writeMultipleJsonValues([filePath], 'config["app.name"]', { 'v1.0': 'first', 'v2.0': 'second' });
+
+      expect(await readTestFile(filePath)).toEqual({
+        config: { 'app.name': { 'v1.0': 'first', 'v2.0': 'second' } },
+      });
+    });
+
+    it('should address array items by index', async () => {
+      const filePath = path.join(testDir, 'path-array-index.json');
+      await fs.writeFile(filePath, JSON.stringify({ items: [{ name: 'a' }, { name: 'b' }] }, null, 2));
+
+      await server.writeMultipleJsonValues([filePath], 'items[1].name', 'B');
+
+      expect((await server.readMultipleJsonValues([filePath], 'items[1]'))[filePath]).toEqual({ name: 'B' });
+    });
+
+    it('should reject invalid paths before touching any file', async () => {
+      const filePath = path.join(testDir, 'path-syntax-error.json');
+      await fs.writeFile(filePath, '{"items": []}');
+
+      await expect(server.readMultipleJsonValues([filePath], 'items[x]')).rejects.toThrow('Invalid path "items[x]"');
+      await expect(server.deleteMultipleJsonValues([filePath], 'items[')).rejects.toThrow('Invalid path "items["');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('{"items": []}');
+    });
+  });
+});
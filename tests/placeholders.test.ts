@@ -0,0 +1,134 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { checkPlaceholders, comparePlaceholders, localeOfFile } from '../src/placeholders';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Placeholder Check', () => {
+  describe('comparePlaceholders', () => {
+    it('should accept translations with the same placeholders in any order', () => {
+      expect(comparePlaceholders('Hi {name}, read <link>the terms</link>', '<link>Lee los términos</link>, {name}')).toBeUndefined();
+    });
+
+    it('should report missing and extra arguments, including plural and select arguments', () => {
+      expect(comparePlaceholders('{name} has {count, plural, other {# items}}', '{nombre} tiene artículos')).toEqual({
+        missingArguments: ['name', 'count'],
+        extraArguments: ['nombre'],
+      });
+      expect(comparePlaceholders('{gender, select, other {They} } left', 'Se fue {when}')).toEqual({
+        missingArguments: ['gender'],
+        extraArguments: ['when'],
+      });
+    });
+
+    it('should report missing and extra tags, including tags inside plurals', () => {
+      expect(comparePlaceholders('{n, plural, other {<b>#</b> items}} <br/>', '{n, plural, other {<strong>#</strong> artículos}}')).toEqual({
+        missingTags: ['<b>', '<br>'],
+        extraTags: ['<strong>'],
+      });
+    });
+
+    it('should check plural categories against the language of the translation', () => {
+      const reference = 'You have {count, plural, one {# message} other {# messages}}';
+
+      expect(comparePlaceholders(reference, 'Masz {count, plural, one {# wiadomość} other {# wiadomości}}', 'pl')).toEqual({
+        missingCategories: ['count: few', 'count: many'],
+      });
+      expect(comparePlaceholders(reference, '{count, plural, one {#} other {#}}', 'ja')).toEqual({
+        unusedCategories: ['count: one'],
+      });
+      expect(comparePlaceholders(reference, '{count, plural, =0 {なし} other {# 件}}', 'ja')).toBeUndefined();
+      expect(comparePlaceholders(reference, '{count, plural, one {#} two {#} other {#}}')).toBeUndefined();
+    });
+
+    it('should use ordinal categories for selectordinal', () => {
+      expect(comparePlaceholders('{n, selectordinal, other {#th}}', '{n, selectordinal, one {#st} other {#th}}', 'en')).toEqual({
+        missingCategories: ['n: two', 'n: few'],
+      });
+    });
+
+    it('should report a plural that became a plain argument', () => {
+      expect(comparePlaceholders('{count, plural, one {# day} other {# days}}', '{count} días', 'es')).toEqual({
+        missingCategories: ['count: one', 'count: other'],
+        optionalCategories: ['count: many'],
+      });
+    });
+
+    it('should not require categories used only for large numbers or fractions', () => {
+      const reference = '{count, plural, one {# day} other {# days}}';
+
+      expect(comparePlaceholders(reference, '{count, plural, one {# día} other {# días}}', 'es')).toBeUndefined();
+      expect(comparePlaceholders(reference, '{count, plural, one {# jour} other {# jours}}', 'fr')).toBeUndefined();
+      expect(comparePlaceholders(reference, '{count, plural, one {# den} few {# dny} other {# dní}}', 'cs')).toBeUndefined();
+    });
+
+    it('should report messages that are not valid ICU', () => {
+      expect(comparePlaceholders('Hi {name}', 'Hola {name')).toEqual({
+        error: 'Invalid ICU message: Expected "}" to close the argument at line 1, column 6',
+      });
+      expect(comparePlaceholders('Hi {name', 'Hola')).toEqual({
+        error: 'Invalid ICU message in the reference: Expected "}" to close the argument at line 1, column 4',
+      });
+    });
+  });
+
+  describe('checkPlaceholders', () => {
+    it('should report the messages with mismatches by path', () => {
+      const reference = { cart: { title: 'Cart', items: '{count} items', 'total.label': 'Total: {sum, number}' }, list: ['{a}'] };
+      const target = { cart: { title: 'Carrito {extra}', items: '{count} artículos', 'total.label': 'Total' }, list: ['{b}'] };
+
+      expect(checkPlaceholders(reference, target)).toEqual({
+        'cart.title': { extraArguments: ['extra'] },
+        'cart["total.label"]': { missingArguments: ['sum'] },
+      });
+    });
+
+    it('should skip messages the translation lacks', () => {
+      expect(checkPlaceholders({ a: '{x}', b: { c: '{y}' } }, { b: 'flat' })).toEqual({});
+    });
+  });
+
+  describe('localeOfFile', () => {
+    it('should take the locale from the file name or its directory', () => {
+      expect(localeOfFile('/app/messages/es.json')).toBe('es');
+      expect(localeOfFile('/app/messages/pt_BR.json')).toBe('pt-BR');
+      expect(localeOfFile('/app/locales/de/common.json')).toBe('de');
+      expect(localeOfFile('/app/messages/common.json')).toBeUndefined();
+    });
+  });
+
+  describe('tool method', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp', 'placeholders');
+    const en = path.join(testDir, 'en.json');
+    const pl = path.join(testDir, 'pl.json');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(en, JSON.stringify({ inbox: '{count, plural, one {# message} other {# messages}}', hello: 'Hi <b>{name}</b>' }));
+    });
+
+    it('should report per file, with the locale of each file', async () => {
+      await fs.writeFile(pl, JSON.stringify({ inbox: '{count, plural, one {#} few {#} many {#} other {#}}', hello: 'Cześć {imie}' }));
+      const custom = path.join(testDir, 'custom.json');
+      await fs.writeFile(custom, JSON.stringify({ inbox: '{count, plural, one {#} other {#}}', hello: 'Hi <b>{name}</b>' }));
+
+      const result = await server.checkPlaceholders(en, [pl, custom], { [custom]: 'pl' });
+
+      expect(result).toEqual({
+        [pl]: { hello: { missingArguments: ['name'], extraArguments: ['imie'], missingTags: ['<b>'] } },
+        [custom]: { inbox: { missingCategories: ['count: few', 'count: many'] } },
+      });
+    });
+
+    it('should report unreadable files and reject unknown locales', async () => {
+      await fs.writeFile(pl, '{');
+
+      const result = await server.checkPlaceholders(en, [pl]);
+
+      expect(result[pl]).toMatch(/^Error: Failed to read JSON file/);
+      await expect(server.checkPlaceholders(en, [pl], { [pl]: 'not a locale' })).rejects.toThrow('Unknown locale: not a locale');
+    });
+  });
+});
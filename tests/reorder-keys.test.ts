@@ -0,0 +1,113 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { JsonDocument } from '../src/document';
+import { reorderKeys } from '../src/locale';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Key Reordering', () => {
+  describe('reorderKeys', () => {
+    const reorder = (reference: any, target: string, options = {}): string => {
+      const document = new JsonDocument(target, options);
+      reorderKeys(new JsonDocument(typeof reference === 'string' ? reference : JSON.stringify(reference), options), document);
+      return document.text;
+    };
+
+    it('should order keys as in the reference at every level', () => {
+      const reference = { title: '', nav: { home: '', about: '' }, footer: '' };
+      const target = JSON.stringify({ footer: 'F', nav: { about: 'A', home: 'H' }, title: 'T' });
+
+      expect(reorder(reference, target)).toBe(JSON.stringify({
+        title: 'T',
+        nav: { home: 'H', about: 'A' },
+        footer: 'F',
+      }));
+    });
+
+    it('should append unknown keys in their current order', () => {
+      const reordered = reorder({ b: '', a: '' }, '{"z":1,"a":2,"y":{"q":1,"p":2},"b":3}');
+
+      expect(reordered).toBe('{"b":3,"a":2,"z":1,"y":{"q":1,"p":2}}');
+    });
+
+    it('should leave arrays and values the reference has in another shape alone', () => {
+      const target = '{"list":[{"b":1,"a":2}],"title":{"b":1,"a":2}}';
+
+      expect(reorder({ title: 'x', list: [{ a: 0, b: 0 }] }, target)).toBe('{"title":{"b":1,"a":2},"list":[{"b":1,"a":2}]}');
+    });
+
+    it('should follow the order of integer-like keys in the reference', () => {
+      const target = '{\n  "404": "No encontrado",\n  "title": "Título"\n}';
+
+      expect(reorder('{"title": "Title", "404": "Not found"}', target)).toBe('{\n  "title": "Título",\n  "404": "No encontrado"\n}');
+    });
+
+    it('should move comments and duplicate keys along with their properties', () => {
+      const target = [
+        '{',
+        '  // Shown on the 404 page',
+        '  "notFound": "No encontrado", // short',
+        '  "title": "Viejo",',
+        '  "title": "Título" /* final */',
+        '}',
+      ].join('\n');
+
+      expect(reorder({ title: '', notFound: '' }, target, { allowComments: true })).toBe([
+        '{',
+        '  "title": "Viejo",',
+        '  "title": "Título", /* final */',
+        '  // Shown on the 404 page',
+        '  "notFound": "No encontrado" // short',
+        '}',
+      ].join('\n'));
+    });
+
+    it('should report whether anything moved', () => {
+      const document = new JsonDocument('{"a": 1, "b": 2}');
+
+      expect(reorderKeys(new JsonDocument('{"a": 0, "b": 0}'), document)).toBe(false);
+      expect(reorderKeys(new JsonDocument('{"b": 0, "a": 0}'), document)).toBe(true);
+      expect(document.text).toBe('{"b": 2, "a": 1}');
+    });
+  });
+
+  describe('tool method', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp', 'reorder-keys');
+    const en = path.join(testDir, 'en.json');
+    const es = path.join(testDir, 'es.json');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(en, '{\n  "welcome": "Welcome",\n  "goodbye": "Goodbye"\n}\n');
+    });
+
+    it('should reorder the files, keeping their formatting', async () => {
+      await fs.writeFile(es, '{\n\t"extra": "Extra",\n\t"goodbye": "Adiós",\n\t"welcome": "Bienvenido"\n}');
+
+      const result = await server.reorderKeys(en, [es]);
+
+      expect(result[es]).toBe('Successfully reordered');
+      expect(await fs.readFile(es, 'utf-8')).toBe('{\n\t"welcome": "Bienvenido",\n\t"goodbye": "Adiós",\n\t"extra": "Extra"\n}');
+    });
+
+    it('should leave files that are already in order untouched', async () => {
+      const original = '{ "welcome": "Bienvenido",   "goodbye": "Adiós" }';
+      await fs.writeFile(es, original);
+
+      const result = await server.reorderKeys(en, [es]);
+
+      expect(result[es]).toBe('Already in order');
+      expect(await fs.readFile(es, 'utf-8')).toBe(original);
+    });
+
+    it('should report files that cannot be read', async () => {
+      await fs.writeFile(es, '{');
+
+      const result = await server.reorderKeys(en, [es]);
+
+      expect(result[es]).toMatch(/^Error: Failed to read JSON file/);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { JsonDocument } from '../src/document';
+import { compareKeys, sortKeys } from '../src/sort';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Key Sorting', () => {
+  describe('sortKeys', () => {
+    const sort = (text: string, options = {}, parseOptions = {}): string => {
+      const document = new JsonDocument(text, parseOptions);
+      sortKeys(document, options);
+      return document.text;
+    };
+
+    it('should sort keys at every level, including objects inside arrays', () => {
+      expect(sort('{"b":{"d":1,"c":2},"a":[{"z":1,"y":2},3]}')).toBe('{"a":[{"y":2,"z":1},3],"b":{"c":2,"d":1}}');
+    });
+
+    it('should only sort the top-level keys when not recursive', () => {
+      expect(sort('{"b":{"d":1,"c":2},"a":[{"z":1,"y":2}]}', { recursive: false })).toBe('{"a":[{"z":1,"y":2}],"b":{"d":1,"c":2}}');
+    });
+
+    it('should sort integer-like keys by code units too', () => {
+      expect(sort('{"b": 1, "9": 2, "10": 3}')).toBe('{"10": 3, "9": 2, "b": 1}');
+      expect(sort('{"10": 3, "9": 2, "b": 1}')).toBe('{"10": 3, "9": 2, "b": 1}');
+    });
+
+    it('should keep "__proto__" an ordinary key', () => {
+      expect(sort('{"b": 1, "__proto__": 2}')).toBe('{"__proto__": 2, "b": 1}');
+    });
+
+    it('should move comments and duplicate keys along with their properties', () => {
+      const text = [
+        '{',
+        '  // Feature flags',
+        '  "flags": { "beta": true, "alpha": false }, // reviewed',
+        '  "debug": false,',
+        '  "debug": true',
+        '}',
+      ].join('\n');
+
+      expect(sort(text, {}, { allowComments: true })).toBe([
+        '{',
+        '  "debug": false,',
+        '  "debug": true,',
+        '  // Feature flags',
+        '  "flags": { "alpha": false, "beta": true } // reviewed',
+        '}',
+      ].join('\n'));
+    });
+
+    it('should leave blank lines between properties where they are', () => {
+      expect(sort('{\n  "b": 1,\n\n  "a": 2\n}')).toBe('{\n  "a": 2,\n\n  "b": 1\n}');
+      expect(sort('{\n  "c": 1,\n\n  // About b\n  "b": 2,\n  "a": 3\n}', {}, { allowComments: true })).toBe('{\n  "a": 3,\n\n  // About b\n  "b": 2,\n  "c": 1\n}');
+    });
+
+    it('should report whether anything moved', () => {
+      expect(sortKeys(new JsonDocument('{"a": 1, "b": 2}'))).toBe(false);
+      expect(sortKeys(new JsonDocument('"text"'))).toBe(false);
+      expect(sortKeys(new JsonDocument('{"b": 1, "a": 2}'))).toBe(true);
+    });
+  });
+
+  describe('compareKeys', () => {
+    const sort = (keys: string[], options = {}) => [...keys].sort(compareKeys(options));
+
+    it('should sort by code units by default, upper case first', () => {
+      expect(sort(['b', 'a', 'B', 'item10', 'item2', 'é'])).toEqual(['B', 'a', 'b', 'item10', 'item2', 'é']);
+    });
+
+    it('should ignore case when asked to, keeping the order of equal keys', () => {
+      expect(sort(['b', 'a', 'B', 'A'], { caseSensitive: false })).toEqual(['a', 'A', 'b', 'B']);
+    });
+
+    it('should compare numbers by value in natural order', () => {
+      expect(sort(['item10', 'item2', 'item1', 'item02b', 'item'], { natural: true })).toEqual(['item', 'item1', 'item2', 'item02b', 'item10']);
+      expect(sort(['v99999999999999999999', 'v100000000000000000000'], { natural: true })).toEqual(['v99999999999999999999', 'v100000000000000000000']);
+    });
+
+    it('should collate for a locale', () => {
+      expect(sort(['z', 'ä', 'a'], { locale: 'de' })).toEqual(['a', 'ä', 'z']);
+      expect(sort(['z', 'ä', 'a'], { locale: 'sv' })).toEqual(['a', 'z', 'ä']);
+      expect(sort(['item10', 'item2'], { locale: 'en', natural: true })).toEqual(['item2', 'item10']);
+    });
+
+    it('should reject invalid locales', () => {
+      expect(() => compareKeys({ locale: 'not a locale' })).toThrow('Invalid locale: not a locale');
+    });
+  });
+
+  describe('tool method', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp', 'sort-keys');
+    const config = path.join(testDir, 'config.json');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should sort the files, keeping their formatting', async () => {
+      await fs.writeFile(config, '{\n\t"name": "app",\n\t"dependencies": {\n\t\t"zod": "3",\n\t\t"axios": "1"\n\t}\n}');
+
+      const result = await server.sortJsonKeys([config]);
+
+      expect(result[config]).toBe('Successfully sorted');
+      expect(await fs.readFile(config, 'utf-8')).toBe('{\n\t"dependencies": {\n\t\t"axios": "1",\n\t\t"zod": "3"\n\t},\n\t"name": "app"\n}');
+    });
+
+    it('should sort JSONC files, keeping their comments', async () => {
+      const settings = path.join(testDir, 'settings.jsonc');
+      await fs.writeFile(settings, '{\n  // Editor\n  "editor.tabSize": 2,\n  /* Theme */\n  "color": "dark"\n}\n');
+
+      const result = await server.sortJsonKeys([settings]);
+
+      expect(result[settings]).toBe('Successfully sorted');
+      expect(await fs.readFile(settings, 'utf-8')).toBe('{\n  /* Theme */\n  "color": "dark",\n  // Editor\n  "editor.tabSize": 2\n}\n');
+    });
+
+    it('should leave files that are already sorted untouched', async () => {
+      const original = '{ "a": 1,   "b": { "d": 2, "c": 3 } }';
+      await fs.writeFile(config, original);
+
+      const result = await server.sortJsonKeys([config], { recursive: false });
+
+      expect(result[config]).toBe('Already sorted');
+      expect(await fs.readFile(config, 'utf-8')).toBe(original);
+    });
+
+    it('should report files that cannot be read', async () => {
+      await fs.writeFile(config, '{');
+
+      const result = await server.sortJsonKeys([config]);
+
+      expect(result[config]).toMatch(/^Error: Failed to read JSON file/);
+    });
+
+    it('should reject invalid options before touching any file', async () => {
+      await expect(server.sortJsonKeys([config], { locale: 'not a locale' })).rejects.toThrow('Invalid locale');
+      await expect(server.sortJsonKeys(['config.json'])).rejects.toThrow('Path must be absolute');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import * as atomicWrite from '../src/atomic-write';
+import { commitStagedFiles } from '../src/transaction';
+import { contentHash } from '../src/hash';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Transactions', () => {
+  let server: JsonEditorMCPServerTestable;
+  const testDir = path.join(__dirname, 'temp', 'transactions');
+  const en = path.join(testDir, 'en.json');
+  const es = path.join(testDir, 'es.json');
+
+  beforeEach(async () => {
+    server = new JsonEditorMCPServerTestable();
+    await fs.rm(testDir, { recursive: true, force: true });
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(en, '{\n  "pages": {\n    "old": "Old"\n  }\n}\n');
+    await fs.writeFile(es, '{\n  "pages": {\n    "old": "Viejo"\n  }\n}\n');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply every operation across files', async () => {
+    await server.transaction([
+      { op: 'write', filePath: en, path: 'pages.about', value: 'About' },
+      { op: 'write', filePath: es, path: 'pages.about', value: 'Acerca de' },
+      { op: 'delete', filePath: en, path: 'pages.old' },
+      { op: 'delete', filePath: es, pointer: '/pages/old' },
+      { op: 'merge', filePath: en, path: 'meta', value: { lang: 'en' } },
+      { op: 'patch', filePath: es, patch: [{ op: 'add', path: '/meta', value: { lang: 'es' } }] },
+    ]);
+
+    expect(await readTestFile(en)).toEqual({ pages: { about: 'About' }, meta: { lang: 'en' } });
+    expect(await readTestFile(es)).toEqual({ pages: { about: 'Acerca de' }, meta: { lang: 'es' } });
+  });
+
+  it('should apply operations in order against the staged content', async () => {
+    await server.transaction([
+      { op: 'write', filePath: en, path: 'a', value: 1, mode: 'createOnly' },
+      { op: 'write', filePath: en, path: 'a', value: 2, mode: 'updateOnly' },
+    ]);
+
+    expect((await readTestFile(en)).a).toBe(2);
+  });
+
+  it('should change no file when an operation fails', async () => {
+    const originalEn = await fs.readFile(en, 'utf-8');
+    const originalEs = await fs.readFile(es, 'utf-8');
+
+    await expect(server.transaction([
+      { op: 'delete', filePath: en, path: 'pages.old' },
+      { op: 'delete', filePath: es, path: 'pages.missing' },
+    ])).rejects.toThrow(`Operation 1 (delete in ${es}) failed, no files were changed: Path pages.missing not found`);
+
+    expect(await fs.readFile(en, 'utf-8')).toBe(originalEn);
+    expect(await fs.readFile(es, 'utf-8')).toBe(originalEs);
+  });
+
+  it('should reject unknown operations and relative paths before reading any file', async () => {
+    await expect(server.transaction([{ op: 'rename' as any, filePath: en }])).rejects.toThrow('Unknown operation: rename');
+    await expect(server.transaction([{ op: 'delete', filePath: 'es.json', path: 'a' }])).rejects.toThrow('Path must be absolute');
+    await expect(server.transaction([])).rejects.toThrow('operations must be a non-empty array');
+  });
+
+  it('should check expected hashes of every file', async () => {
+    const hashes = {
+      [en]: contentHash(await fs.readFile(en, 'utf-8')),
+      [es]: 'stale',
+    };
+
+    await expect(server.transaction([
+      { op: 'write', filePath: en, path: 'a', value: 1 },
+      { op: 'write', filePath: es, path: 'a', value: 1 },
+    ], hashes)).rejects.toThrow(`File ${es} has changed since it was read`);
+
+    expect(await readTestFile(en)).toEqual({ pages: { old: 'Old' } });
+  });
+
+  it('should roll back written files when a later write fails', async () => {
+    const de = path.join(testDir, 'de.json');
+    const originalEn = await fs.readFile(en, 'utf-8');
+    const originalEs = await fs.readFile(es, 'utf-8');
+    const realWrite = atomicWrite.writeFileAtomic;
+    jest.spyOn(atomicWrite, 'writeFileAtomic').mockImplementation(async (filePath, content) => {
+      if (filePath === es && content !== originalEs) {
+        throw new Error('disk full');
+      }
+      return realWrite(filePath, content);
+    });
+
+    await expect(server.transaction([
+      { op: 'write', filePath: en, path: 'a', value: 1 },
+      { op: 'write', filePath: de, path: 'a', value: 1 },
+      { op: 'write', filePath: es, path: 'a', value: 1 },
+    ])).rejects.toThrow('Transaction was rolled back, no files were changed: disk full');
+
+    expect(await fs.readFile(en, 'utf-8')).toBe(originalEn);
+    expect(await fs.readFile(es, 'utf-8')).toBe(originalEs);
+    await expect(fs.access(de)).rejects.toThrow();
+  });
+
+  describe('commitStagedFiles', () => {
+    it('should report files that could not be restored', async () => {
+      const realWrite = atomicWrite.writeFileAtomic;
+      let calls = 0;
+      jest.spyOn(atomicWrite, 'writeFileAtomic').mockImplementation(async (filePath, content) => {
+        // The first write succeeds, every later one fails, including the restore
+        if (calls++ > 0) {
+          throw new Error('disk full');
+        }
+        return realWrite(filePath, content);
+      });
+
+      await expect(commitStagedFiles([
+        { filePath: en, original: 'old', content: '{}' },
+        { filePath: es, original: 'old', content: '{}' },
+      ])).rejects.toThrow(`Transaction failed and these files could not be restored: ${en}. Cause: disk full`);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { JsonEditorMCPServerTestable } from './JsonEditorMCPServerTestable';
+import { readTestFile } from './setup';
+import { JsonDocument } from '../src/document';
+import { WriteMode, writeValue } from '../src/write';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+describe('Write Modes', () => {
+  const target = { config: { theme: 'dark', editor: { tabs: 2, wrap: true } } };
+
+  const write = (keys: string[], value: any, mode?: WriteMode): any => {
+    const document = new JsonDocument(JSON.stringify(target, null, 2));
+    writeValue(document, keys, value, mode);
+    return document.value;
+  };
+
+  describe('writeValue', () => {
+    it('should overwrite the existing value in replace mode', () => {
+      expect(write(['config'], { editor: { tabs: 4 } }, 'replace')).toEqual({ config: { editor: { tabs: 4 } } });
+      expect(write(['config'], {}, 'replace')).toEqual({ config: {} });
+    });
+
+    it('should set each entry of an object value in merge mode', () => {
+      expect(write(['config'], { editor: { tabs: 4 }, lang: 'en' }, 'merge'))
+        .toEqual({ config: { theme: 'dark', editor: { tabs: 4 }, lang: 'en' } });
+    });
+
+    it('should default to merge mode', () => {
+      expect(write(['config'], { lang: 'en' })).toEqual({ config: { ...target.config, lang: 'en' } });
+    });
+
+    it('should leave an existing object alone when merging an empty object', () => {
+      expect(write(['config'], {}, 'merge')).toEqual(target);
+      expect(write(['config'], {}, 'deepMerge')).toEqual(target);
+    });
+
+    it('should replace the target with an empty object when no mode is given', () => {
+      expect(write(['config'], {})).toEqual({ config: {} });
+    });
+
+    it('should merge object values recursively in deepMerge mode', () => {
+      expect(write(['config'], { editor: { tabs: 4 }, lang: 'en' }, 'deepMerge'))
+        .toEqual({ config: { theme: 'dark', editor: { tabs: 4, wrap: true }, lang: 'en' } });
+    });
+
+    it('should replace non-object targets when merging', () => {
+      expect(write(['config', 'theme'], { name: 'dark' }, 'merge')).toEqual({ config: { ...target.config, theme: { name: 'dark' } } });
+      expect(write(['config', 'theme'], { name: 'dark' }, 'deepMerge')).toEqual({ config: { ...target.config, theme: { name: 'dark' } } });
+      expect(write(['config', 'editor'], 'none', 'deepMerge')).toEqual({ config: { theme: 'dark', editor: 'none' } });
+    });
+
+    it('should only create missing values in createOnly mode', () => {
+      expect(write(['config', 'lang'], 'en', 'createOnly')).toEqual({ config: { ...target.config, lang: 'en' } });
+      expect(() => write(['config', 'theme'], 'light', 'createOnly')).toThrow('Path config.theme already exists');
+    });
+
+    it('should only update existing values in updateOnly mode', () => {
+      expect(write(['config', 'theme'], 'light', 'updateOnly')).toEqual({ config: { ...target.config, theme: 'light' } });
+      expect(() => write(['config', 'lang'], 'en', 'updateOnly')).toThrow('Path config.lang does not exist');
+    });
+
+    it('should reject unknown modes', () => {
+      expect(() => write(['config'], 1, 'upsert' as WriteMode)).toThrow('Unknown write mode: upsert');
+    });
+  });
+
+  describe('writeMultipleJsonValues', () => {
+    let server: JsonEditorMCPServerTestable;
+    const testDir = path.join(__dirname, 'temp');
+
+    beforeEach(async () => {
+      server = new JsonEditorMCPServerTestable();
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    it('should apply the mode to every file', async () => {
+      const filePath1 = path.join(testDir, 'write-mode-1.json');
+      const filePath2 = path.join(testDir, 'write-mode-2.json');
+      await fs.writeFile(filePath1, JSON.stringify(target, null, 2));
+      await fs.writeFile(filePath2, JSON.stringify({ config: { editor: { font: 'mono' } } }, null, 2));
+
+      await server.writeMultipleJsonValues([filePath1, filePath2], 'config', { editor: { tabs: 4 } }, undefined, 'deepMerge');
+
+      expect(await readTestFile(filePath1)).toEqual({ config: { theme: 'dark', editor: { tabs: 4, wrap: true } } });
+      expect(await readTestFile(filePath2)).toEqual({ config: { editor: { font: 'mono', tabs: 4 } } });
+    });
+
+    it('should report files rejected by createOnly and leave them untouched', async () => {
+      const existing = path.join(testDir, 'write-mode-existing.json');
+      const missing = path.join(testDir, 'write-mode-missing.json');
+      await fs.writeFile(existing, '{\n  "title": "Old"\n}');
+      await fs.rm(missing, { force: true });
+
+      const result = await server.writeMultipleJsonValues([existing, missing], 'title', 'New', undefined, 'createOnly');
+
+      expect(result[existing]).toBe('Error: Path title already exists');
+      expect(result[missing]).toBe('Successfully wrote');
+      expect(await fs.readFile(existing, 'utf-8')).toBe('{\n  "title": "Old"\n}');
+      expect(await readTestFile(missing)).toEqual({ title: 'New' });
+    });
+
+    it('should replace a subtree with a JSON string value', async () => {
+      const filePath = path.join(testDir, 'write-mode-replace.json');
+      await fs.writeFile(filePath, JSON.stringify(target, null, 2));
+
+      await server.writeMultipleJsonValues([filePath], 'config', '{"theme": "light"}', undefined, 'replace');
+
+      expect(await readTestFile(filePath)).toEqual({ config: { theme: 'light' } });
+    });
+
+    it('should clear a subtree with an empty object when no mode is given', async () => {
+      const filePath = path.join(testDir, 'write-mode-clear.json');
+      await fs.writeFile(filePath, JSON.stringify(target, null, 2));
+
+      const result = await server.writeMultipleJsonValues([filePath], 'config.editor', {});
+
+      expect(result[filePath]).toBe('Successfully wrote');
+      expect(await readTestFile(filePath)).toEqual({ config: { theme: 'dark', editor: {} } });
+    });
+  });
+});